@@ -1,19 +1,92 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { Upload, Download, RefreshCw, Trash2, CheckCircle, Loader2, X, Check, ChevronLeft, ChevronRight, Globe } from 'lucide-react';
+import { Upload, Download, RefreshCw, Trash2, CheckCircle, Loader2, X, Check, ChevronLeft, ChevronRight, Globe, Eye, EyeOff, Layers, ScanFace, ArrowUpDown, Pause, Play, Square, Film, Crop, RotateCw, SlidersHorizontal, StepBack, StepForward, ChevronsLeft, ChevronsRight, Replace, ImagePlus, Camera, History, LayoutGrid, Sparkles, Clapperboard, Star, Ban, Columns2, Undo2, Redo2, CircleAlert, TriangleAlert, Info, ClipboardList } from 'lucide-react';
 import JSZip from 'jszip';
 
+interface FrameQuality {
+  sharpness: number;      // Variance of the Laplacian over the luma channel
+  highlightClip: number;  // Fraction of pixels at or near pure white (0-1)
+  shadowClip: number;     // Fraction of pixels at or near pure black (0-1)
+  meanLuma: number;       // Average luminance (0-255)
+  score: number;          // Combined 0-100 score used for badges and auto-hide
+}
+
+type VideoSourceStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+// One uploaded video in the extraction queue
+interface VideoSource {
+  id: string;
+  file: File;
+  name: string;
+  status: VideoSourceStatus;
+  progress: number;       // 0-100
+  duration?: number;      // Seconds, once metadata has loaded
+  frameDuration?: number; // Seconds per source frame, detected when first stepping through the video
+  width?: number;
+  height?: number;
+  creationTime?: number | null; // Recording start from the container (ms since epoch), when present
+  report?: ExtractionReport;
+  segments?: TimeRange[]; // Stretches chosen before extraction; none means the whole video
+  pictureArea?: PictureArea; // Set when extraction found constant black bars around the picture
+}
+
+// What one extraction run asked of a video and what came of it
+interface ExtractionReport {
+  requested: number;      // Target timestamps
+  extracted: number;      // Frames decoded and encoded
+  merged: number;         // Targets that landed on a source frame already extracted
+  timedOut: number;       // Seeks that never produced a frame
+  failed: number;         // Frames that could not be decoded or encoded
+  blank: number;          // Extracted frames dropped as flat black, white or grey cards
+  faded: number;          // Extracted frames dropped as part of a fade
+  error?: ErrorKind;      // Set when the whole video failed
+  errorDetail?: string;   // E.g. the unsupported codec's name
+}
+
 interface PortfolioFrame {
   id: string;
-  url: string;
-  blob: Blob;
+  url: string;            // Object URL of the thumbnail, shown in the grid
+  blob: Blob;             // Full-resolution still; moved to disk once stills outgrow the memory budget
+  thumbnail: Blob;
   selected: boolean;
   timestamp: number;
+  sourceId: string;       // VideoSource the frame was extracted from
+  quality?: FrameQuality;
+  hash?: string;          // 64-bit dHash as 16 hex chars, used for near-duplicate grouping
+  faces?: FaceAnalysis;   // Set once the optional face analysis pass has run
+  crop?: FrameCrop;       // Non-destructive edits, applied when previewing and exporting
+  adjustments?: FrameAdjustments;
+  previewUrl?: string;    // Rendered edits shown in place of url while the frame has any
+  stackedFrames?: number; // Set when the still merges this many source frames, so it can't be re-decoded
+  clip?: ClipSettings;    // Set when an animated clip around the frame goes into the ZIP next to the still
+  rating?: number;        // 1-5 stars
+  label?: ColorLabel;
+  rejected?: boolean;     // Never selected at the same time
+}
+
+interface FrameGroup {
+  id: string;
+  frameIds: string[];     // Members in gallery order
+  bestId: string;         // Highest-quality member, shown on top of the collapsed stack
 }
 
-type Language = 'en' | 'zh' | 'fr' | 'de' | 'es';
+interface GalleryItem {
+  frame: PortfolioFrame;
+  group?: FrameGroup;     // Set when the frame belongs to a group of near-duplicates
+  stacked: boolean;       // True when the frame stands in for its whole collapsed group
+}
+
+type Language = 'en' | 'zh' | 'ja' | 'ko' | 'fr' | 'de' | 'es' | 'pt' | 'ar';
+
+// 'interval' samples at a fixed rate; 'scene' samples densely and keeps one still per detected shot
+type ExtractionMode = 'interval' | 'scene';
+
+type FrameSortMode = 'time' | 'quality' | 'faces';
 
-const TopBanner: React.FC = () => {
+// With several source videos the gallery is either one merged timeline or one section per video
+type GalleryLayout = 'merged' | 'byVideo';
+
+const TopBanner: React.FC<{ t: Record<string, string> }> = ({ t }) => {
     return (
         <div className="bg-gradient-to-r from-indigo-900 via-purple-900 to-indigo-900 text-white py-2.5 px-4 text-center text-sm font-medium border-b border-white/10 relative overflow-hidden animate-in fade-in slide-in-from-top-2 duration-700">
             {/* Background glitter/effect optional */}
@@ -26,182 +99,5003 @@ const TopBanner: React.FC = () => {
                     rel="noreferrer"
                     className="flex items-center gap-2 hover:text-indigo-200 transition-colors group"
                 >
-                    <span role="img" aria-label="trophy" className="animate-pulse">🏆</span>
-                    <span>Not sure which pictures to pick? Try FolioRankAI for personalized AI suggestions!</span>
-                    <span className="underline decoration-indigo-400/50 group-hover:decoration-indigo-300">Take me to FolioRankAI &rarr;</span>
-                </a>
+                    <span role="img" aria-label="trophy" className="animate-pulse">🏆</span>
+                    <span>{t.bannerText}</span>
+                    <span className="underline decoration-indigo-400/50 group-hover:decoration-indigo-300">{t.bannerLink}</span>
+                </a>
+            </div>
+        </div>
+    );
+};
+
+// --- Frame Analysis ---
+
+// Longest side of the luma grid used for analysis. Keeps scoring cheap on 4K frames.
+const QUALITY_SAMPLE_SIZE = 512;
+const HIGHLIGHT_CLIP_LEVEL = 250;
+const SHADOW_CLIP_LEVEL = 5;
+
+interface LumaSample {
+  luma: Float32Array;
+  width: number;
+  height: number;
+}
+
+// Reads back the drawn frame and reduces it to a bounded luma grid shared by all analysis passes
+const sampleLuma = (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, width: number, height: number): LumaSample => {
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    // Sample the frame on a regular grid so the work is bounded regardless of resolution
+    const step = Math.max(1, Math.ceil(Math.max(width, height) / QUALITY_SAMPLE_SIZE));
+    const w = Math.floor(width / step);
+    const h = Math.floor(height / step);
+    const luma = new Float32Array(w * h);
+
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+            const i = ((y * step) * width + (x * step)) * 4;
+            // Rec. 601 luma
+            luma[y * w + x] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        }
+    }
+    return { luma, width: w, height: h };
+};
+
+const scoreFrameQuality = (sharpness: number, highlightClip: number, shadowClip: number, meanLuma: number): number => {
+    // Laplacian variance spans orders of magnitude, so map it on a log scale (~10 blurry, ~1000 crisp)
+    const sharpScore = Math.min(1, Math.max(0, (Math.log10(sharpness + 1) - 1) / 2));
+    // Penalise blown highlights and crushed shadows once they exceed a small share of the frame
+    const clipPenalty = Math.min(1, Math.max(0, highlightClip - 0.02) * 3 + Math.max(0, shadowClip - 0.05) * 2);
+    // Penalise frames that are far too dark or bright overall
+    const exposureScore = 1 - Math.min(1, Math.abs(meanLuma - 118) / 118) ** 2;
+    return Math.round(100 * sharpScore * (1 - clipPenalty) * exposureScore);
+};
+
+const computeFrameQuality = ({ luma, width: w, height: h }: LumaSample): FrameQuality => {
+    let sum = 0;
+    let highlights = 0;
+    let shadows = 0;
+    for (let i = 0; i < luma.length; i++) {
+        const l = luma[i];
+        sum += l;
+        if (l >= HIGHLIGHT_CLIP_LEVEL) highlights++;
+        if (l <= SHADOW_CLIP_LEVEL) shadows++;
+    }
+    const total = Math.max(1, luma.length);
+
+    // Variance of the 4-neighbour Laplacian: low values mean few edges, i.e. blur
+    let lapSum = 0;
+    let lapSqSum = 0;
+    let lapCount = 0;
+    for (let y = 1; y < h - 1; y++) {
+        for (let x = 1; x < w - 1; x++) {
+            const c = y * w + x;
+            const lap = luma[c - 1] + luma[c + 1] + luma[c - w] + luma[c + w] - 4 * luma[c];
+            lapSum += lap;
+            lapSqSum += lap * lap;
+            lapCount++;
+        }
+    }
+    const lapMean = lapCount ? lapSum / lapCount : 0;
+    const sharpness = lapCount ? lapSqSum / lapCount - lapMean * lapMean : 0;
+
+    const highlightClip = highlights / total;
+    const shadowClip = shadows / total;
+    const meanLuma = sum / total;
+
+    return {
+        sharpness,
+        highlightClip,
+        shadowClip,
+        meanLuma,
+        score: scoreFrameQuality(sharpness, highlightClip, shadowClip, meanLuma)
+    };
+};
+
+// --- Near-Duplicate Detection ---
+
+const HASH_COLS = 9;
+const HASH_ROWS = 8;
+
+// Difference hash: compares horizontally adjacent cells of a 9x8 luma thumbnail
+const computePerceptualHash = ({ luma, width: w, height: h }: LumaSample): string => {
+    const cells = new Float32Array(HASH_COLS * HASH_ROWS);
+    const counts = new Uint32Array(cells.length);
+    for (let y = 0; y < h; y++) {
+        const row = Math.min(HASH_ROWS - 1, Math.floor((y / h) * HASH_ROWS));
+        for (let x = 0; x < w; x++) {
+            const cell = row * HASH_COLS + Math.min(HASH_COLS - 1, Math.floor((x / w) * HASH_COLS));
+            cells[cell] += luma[y * w + x];
+            counts[cell]++;
+        }
+    }
+    for (let i = 0; i < cells.length; i++) cells[i] = counts[i] ? cells[i] / counts[i] : 0;
+
+    let hex = '';
+    for (let row = 0; row < HASH_ROWS; row++) {
+        let byte = 0;
+        for (let col = 0; col < HASH_COLS - 1; col++) {
+            const i = row * HASH_COLS + col;
+            byte = (byte << 1) | (cells[i] < cells[i + 1] ? 1 : 0);
+        }
+        hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+};
+
+const popcount32 = (n: number) => {
+    n = n - ((n >>> 1) & 0x55555555);
+    n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+    return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+const hammingDistance = (a: string, b: string) =>
+    popcount32(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16)) +
+    popcount32(parseInt(a.slice(8, 16), 16) ^ parseInt(b.slice(8, 16), 16));
+
+// Single-linkage clustering: frames within `maxDistance` bits of any member join that group
+const groupSimilarFrames = (frames: PortfolioFrame[], maxDistance: number): FrameGroup[] => {
+    const parent = frames.map((_, i) => i);
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+
+    for (let i = 0; i < frames.length; i++) {
+        const a = frames[i].hash;
+        if (!a) continue;
+        for (let j = i + 1; j < frames.length; j++) {
+            const b = frames[j].hash;
+            if (b && hammingDistance(a, b) <= maxDistance) {
+                parent[find(j)] = find(i);
+            }
+        }
+    }
+
+    const groups = new Map<number, PortfolioFrame[]>();
+    frames.forEach((frame, i) => {
+        const root = find(i);
+        const members = groups.get(root);
+        if (members) members.push(frame);
+        else groups.set(root, [frame]);
+    });
+
+    // Map preserves insertion order, so groups come out ordered by their earliest member
+    return Array.from(groups.values()).map(members => {
+        const best = members.reduce((a, b) => (b.quality?.score ?? 0) > (a.quality?.score ?? 0) ? b : a);
+        return { id: `group-${members[0].id}`, frameIds: members.map(f => f.id), bestId: best.id };
+    });
+};
+
+// Max Hamming distance (out of 64 bits) for two frames to count as near-duplicates
+const DEFAULT_GROUP_DISTANCE = 8;
+
+// --- Face Detection ---
+
+interface FaceBox {
+  x: number;              // Bounding box in 0-1 frame coordinates
+  y: number;
+  width: number;
+  height: number;
+  eyesOpen: number;       // 0-1 estimate that both eyes are visible and open
+}
+
+interface FaceAnalysis {
+  boxes: FaceBox[];
+  score: number;          // 0-100 face quality, driven by the largest face's size and eyes
+  detector: 'native' | 'bundled';
+}
+
+// Minimal typings for the Shape Detection API, which is not in the DOM lib yet
+interface NativeDetectedFace {
+  boundingBox: DOMRectReadOnly;
+  landmarks?: { type: string; locations: { x: number; y: number }[] }[];
+}
+
+interface NativeFaceDetector {
+  detect(image: ImageBitmapSource): Promise<NativeDetectedFace[]>;
+}
+
+type NativeFaceDetectorConstructor = new (options?: { maxDetectedFaces?: number; fastMode?: boolean }) => NativeFaceDetector;
+
+const MAX_FACES = 10;
+// Longest side of the RGB thumbnail the bundled detector and the eye heuristic work on
+const FACE_SAMPLE_SIZE = 192;
+
+const getNativeFaceDetector = (): NativeFaceDetector | null => {
+    const Ctor = (window as unknown as { FaceDetector?: NativeFaceDetectorConstructor }).FaceDetector;
+    if (!Ctor) return null;
+    try {
+        return new Ctor({ maxDetectedFaces: MAX_FACES, fastMode: false });
+    } catch {
+        return null;
+    }
+};
+
+// YCbCr skin classification (Chai & Ngan ranges), tolerant enough for most skin tones under video lighting
+const isSkinPixel = (r: number, g: number, b: number) => {
+    const y = 0.299 * r + 0.587 * g + 0.114 * b;
+    const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+    const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+    return y > 50 && cb >= 77 && cb <= 135 && cr >= 133 && cr <= 180;
+};
+
+// Eyes read as dark, non-skin patches in the upper band of a face. Scores each half of that band
+// and returns the weaker side, so a closed or turned-away eye pulls the estimate down.
+const estimateEyesOpen = (image: ImageData, box: FaceBox): number => {
+    const { data, width, height } = image;
+    const x0 = Math.floor(box.x * width);
+    const x1 = Math.ceil((box.x + box.width) * width);
+    const y0 = Math.floor((box.y + box.height * 0.2) * height);
+    const y1 = Math.ceil((box.y + box.height * 0.5) * height);
+    const mid = (x0 + x1) / 2;
+
+    let lumaSum = 0;
+    let count = 0;
+    for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+            const i = (y * width + x) * 4;
+            lumaSum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+            count++;
+        }
+    }
+    if (!count) return 0;
+    const darkLevel = (lumaSum / count) * 0.6;
+
+    let left = 0;
+    let right = 0;
+    let leftTotal = 0;
+    let rightTotal = 0;
+    for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+            const i = (y * width + x) * 4;
+            const l = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+            const isEye = l < darkLevel && !isSkinPixel(data[i], data[i + 1], data[i + 2]);
+            if (x < mid) { leftTotal++; if (isEye) left++; }
+            else { rightTotal++; if (isEye) right++; }
+        }
+    }
+    // An open eye typically covers ~3-8% of its half of the eye band
+    const side = (n: number, total: number) => total ? Math.min(1, (n / total) / 0.04) : 0;
+    return Math.min(side(left, leftTotal), side(right, rightTotal));
+};
+
+// Each detector maps its faces to FaceBoxes in 0-1 coordinates of the sampled frame
+interface FrameFaceDetector {
+  kind: FaceAnalysis['detector'];
+  detect: (bitmap: ImageBitmap, image: ImageData) => Promise<FaceBox[]>;
+}
+
+const nativeFrameDetector = (detector: NativeFaceDetector): FrameFaceDetector => ({
+    kind: 'native',
+    detect: async (bitmap, image) => {
+        const faces = await detector.detect(bitmap);
+        return faces.slice(0, MAX_FACES).map(face => {
+            const box: FaceBox = {
+                x: face.boundingBox.x / bitmap.width,
+                y: face.boundingBox.y / bitmap.height,
+                width: face.boundingBox.width / bitmap.width,
+                height: face.boundingBox.height / bitmap.height,
+                eyesOpen: 0
+            };
+            // Native detectors only report eye landmarks they can see; otherwise use the pixel heuristic
+            const eyes = face.landmarks?.filter(l => l.type === 'eye').length ?? 0;
+            box.eyesOpen = eyes >= 2 ? Math.max(0.5, estimateEyesOpen(image, box)) : estimateEyesOpen(image, box);
+            return box;
+        });
+    }
+});
+
+// MediaPipe's BlazeFace (short range) model, for browsers without the Shape Detection API. It runs on-device;
+// the wasm runtime and model are downloaded on first use and cached by the browser like the app's other assets.
+const MEDIAPIPE_VERSION = '1.0.1';  // Must match the @mediapipe/tasks-vision entry in the index.html importmap
+const MEDIAPIPE_WASM_URL = `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}/wasm`;
+const BLAZE_FACE_MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite';
+
+let bundledFaceDetector: Promise<FrameFaceDetector> | null = null;
+
+const loadBundledFaceDetector = () => {
+    bundledFaceDetector ??= (async (): Promise<FrameFaceDetector> => {
+        const { FilesetResolver, FaceDetector } = await import('@mediapipe/tasks-vision');
+        const vision = await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_URL);
+        const detector = await FaceDetector.createFromOptions(vision, {
+            baseOptions: { modelAssetPath: BLAZE_FACE_MODEL_URL, delegate: 'CPU' },
+            runningMode: 'IMAGE'
+        });
+        return {
+            kind: 'bundled',
+            detect: async (_, image) => detector.detect(image).detections
+                .filter(d => d.boundingBox)
+                .sort((a, b) => (b.categories[0]?.score ?? 0) - (a.categories[0]?.score ?? 0))
+                .slice(0, MAX_FACES)
+                .map(d => {
+                    // Boxes can reach past the frame edge for faces that are partly out of shot
+                    const { originX, originY, width, height } = d.boundingBox!;
+                    const x0 = clamp(originX / image.width, 0, 1);
+                    const y0 = clamp(originY / image.height, 0, 1);
+                    const x1 = clamp((originX + width) / image.width, 0, 1);
+                    const y1 = clamp((originY + height) / image.height, 0, 1);
+                    const box: FaceBox = { x: x0, y: y0, width: x1 - x0, height: y1 - y0, eyesOpen: 0 };
+                    box.eyesOpen = estimateEyesOpen(image, box);
+                    return box;
+                })
+        };
+    })();
+    // A failed download is retried on the next analysis rather than cached
+    bundledFaceDetector.catch(() => { bundledFaceDetector = null; });
+    return bundledFaceDetector;
+};
+
+const scoreFaces = (boxes: FaceBox[]): number => {
+    if (boxes.length === 0) return 0;
+    // A face filling ~10% of the frame counts as full size
+    return Math.round(100 * Math.max(...boxes.map(b => {
+        const sizeScore = Math.min(1, Math.sqrt((b.width * b.height) / 0.1));
+        return 0.6 * sizeScore + 0.4 * b.eyesOpen;
+    })));
+};
+
+const analyzeFrameFaces = async (blob: Blob, detector: FrameFaceDetector): Promise<FaceAnalysis> => {
+    const bitmap = await createImageBitmap(blob);
+    try {
+        const scale = Math.min(1, FACE_SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+        canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) throw new Error('Could not create face analysis canvas');
+        ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+        const boxes = await detector.detect(bitmap, image);
+        return { boxes, score: scoreFaces(boxes), detector: detector.kind };
+    } finally {
+        bitmap.close();
+    }
+};
+
+// --- Scene Change Detection ---
+
+const SCENE_HISTOGRAM_BINS = 64;
+const SCENE_GRID_COLS = 16;
+const SCENE_GRID_ROWS = 9;
+
+interface SceneSignature {
+  histogram: Float32Array; // Normalised luma histogram (sums to 1)
+  grid: Float32Array;      // Coarse block-average luma, catches cuts between similarly lit shots
+}
+
+const computeSceneSignature = ({ luma, width: w, height: h }: LumaSample): SceneSignature => {
+    const histogram = new Float32Array(SCENE_HISTOGRAM_BINS);
+    const grid = new Float32Array(SCENE_GRID_COLS * SCENE_GRID_ROWS);
+    const gridCounts = new Uint32Array(grid.length);
+
+    for (let y = 0; y < h; y++) {
+        const row = Math.min(SCENE_GRID_ROWS - 1, Math.floor((y / h) * SCENE_GRID_ROWS));
+        for (let x = 0; x < w; x++) {
+            const l = luma[y * w + x];
+            histogram[Math.min(SCENE_HISTOGRAM_BINS - 1, Math.floor((l / 256) * SCENE_HISTOGRAM_BINS))]++;
+            const cell = row * SCENE_GRID_COLS + Math.min(SCENE_GRID_COLS - 1, Math.floor((x / w) * SCENE_GRID_COLS));
+            grid[cell] += l;
+            gridCounts[cell]++;
+        }
+    }
+
+    const total = Math.max(1, luma.length);
+    for (let i = 0; i < histogram.length; i++) histogram[i] /= total;
+    for (let i = 0; i < grid.length; i++) grid[i] = gridCounts[i] ? grid[i] / gridCounts[i] : 0;
+    return { histogram, grid };
+};
+
+// Returns a 0-1 difference between two signatures; hard cuts typically land well above 0.3
+const sceneDifference = (a: SceneSignature, b: SceneSignature): number => {
+    let histDiff = 0;
+    for (let i = 0; i < a.histogram.length; i++) histDiff += Math.abs(a.histogram[i] - b.histogram[i]);
+    let gridDiff = 0;
+    for (let i = 0; i < a.grid.length; i++) gridDiff += Math.abs(a.grid[i] - b.grid[i]);
+    // L1 histogram distance is 0-2; block difference is scaled so a 64-level shift everywhere counts as a full change
+    return Math.max(histDiff / 2, Math.min(1, gridDiff / a.grid.length / 64));
+};
+
+// --- Frame Screening ---
+// Blank cards, fades and letterboxing are all judged from the luma sample every extracted frame already has
+
+const BLANK_MAX_DEVIATION = 4;     // Luma standard deviation (0-255) below which a frame is a flat black, white or grey card
+const FADE_MIN_CORRELATION = 0.9;  // A fading frame shows its neighbour's picture...
+const FADE_MAX_CONTRAST = 0.7;     // ...with at most this share of its contrast
+const BAR_MAX_LUMA = 24;           // Rows and columns whose mean never gets brighter than this are black bars
+const BAR_MIN_SHARE = 0.02;        // Thinner bars, and bar pairs differing by more than this, are left alone
+const BAR_MIN_FRAMES = 3;
+
+interface LumaStats {
+  mean: number;
+  deviation: number;
+}
+
+const computeLumaStats = ({ luma }: LumaSample): LumaStats => {
+    let sum = 0;
+    let sumSquares = 0;
+    for (let i = 0; i < luma.length; i++) {
+        sum += luma[i];
+        sumSquares += luma[i] * luma[i];
+    }
+    const n = Math.max(1, luma.length);
+    const mean = sum / n;
+    return { mean, deviation: Math.sqrt(Math.max(0, sumSquares / n - mean * mean)) };
+};
+
+const isBlankFrame = (stats: LumaStats) => stats.deviation < BLANK_MAX_DEVIATION;
+
+// An extracted frame waiting for its neighbours before it is kept or dropped
+interface ScreenedFrame {
+  encoded: EncodedFrame;
+  timestamp: number;
+  segment: number;        // Index of the chosen segment it came from; frames of different segments aren't compared
+  stats: LumaStats;
+}
+
+// True when `sample` is `neighbour`'s picture faded towards black or white: strongly correlated, far less contrast
+const isFadeOf = (sample: LumaSample, stats: LumaStats, neighbour: LumaSample, neighbourStats: LumaStats) => {
+    if (sample.luma.length !== neighbour.luma.length || stats.deviation >= neighbourStats.deviation * FADE_MAX_CONTRAST) return false;
+    let covariance = 0;
+    for (let i = 0; i < sample.luma.length; i++) {
+        covariance += (sample.luma[i] - stats.mean) * (neighbour.luma[i] - neighbourStats.mean);
+    }
+    const correlation = covariance / sample.luma.length / (stats.deviation * neighbourStats.deviation);
+    return correlation > FADE_MIN_CORRELATION;
+};
+
+// Normalized (0-1) rectangle of a frame
+interface PictureArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Brightest mean each sample row and column reached over a video's frames
+interface BarTracker {
+  rowPeaks: Float32Array;
+  columnPeaks: Float32Array;
+  frames: number;
+}
+
+const trackBars = (tracker: BarTracker | null, { luma, width, height }: LumaSample): BarTracker => {
+    const current = tracker && tracker.rowPeaks.length === height && tracker.columnPeaks.length === width
+        ? tracker
+        : { rowPeaks: new Float32Array(height), columnPeaks: new Float32Array(width), frames: 0 };
+    const columnSums = new Float32Array(width);
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        for (let x = 0; x < width; x++) {
+            rowSum += luma[y * width + x];
+            columnSums[x] += luma[y * width + x];
+        }
+        current.rowPeaks[y] = Math.max(current.rowPeaks[y], rowSum / width);
+    }
+    for (let x = 0; x < width; x++) current.columnPeaks[x] = Math.max(current.columnPeaks[x], columnSums[x] / height);
+    current.frames++;
+    return current;
+};
+
+// Span [start, end) between a centred pair of bars along one axis, as shares of it
+const barSpan = (peaks: Float32Array): [number, number] => {
+    const size = peaks.length;
+    let before = 0;
+    while (before < size && peaks[before] < BAR_MAX_LUMA) before++;
+    let after = 0;
+    while (after < size - before && peaks[size - 1 - after] < BAR_MAX_LUMA) after++;
+    // Letterboxing and pillarboxing are centred; one dark edge is more likely part of the picture
+    const min = BAR_MIN_SHARE * size;
+    if (before < min || after < min || Math.abs(before - after) > min || before + after + 2 >= size) return [0, 1];
+    // Step one more sample in: the sample on the boundary mixes bar and picture
+    return [(before + 1) / size, (size - after - 1) / size];
+};
+
+// The active picture inside constant black bars, or null when the video fills its frame
+const detectPictureArea = (tracker: BarTracker | null): PictureArea | null => {
+    if (!tracker || tracker.frames < BAR_MIN_FRAMES) return null;
+    const [x0, x1] = barSpan(tracker.columnPeaks);
+    const [y0, y1] = barSpan(tracker.rowPeaks);
+    if (x0 === 0 && y0 === 0) return null;
+    return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+// Maps the 0-100 sensitivity slider to a difference threshold: higher sensitivity keeps more shots
+const sceneThreshold = (sensitivity: number) => 0.05 + (1 - sensitivity / 100) * 0.45;
+
+// Dense sampling step for scene mode (4 samples per second)
+const SCENE_SAMPLE_INTERVAL = 0.25;
+
+// Frames handed to the encoder but not yet analysed; bounds memory while keeping the encoder busy
+const MAX_FRAMES_IN_FLIGHT = 3;
+
+// --- WebCodecs Decoding ---
+
+interface DemuxedSample {
+  offset: number;         // Byte offset of the encoded sample in the file
+  size: number;
+  timestamp: number;      // Presentation time in microseconds
+  duration: number;       // Microseconds
+  isKey: boolean;
+}
+
+interface DemuxedTrack {
+  codec: string;          // WebCodecs codec string, e.g. "avc1.64001f"
+  description?: Uint8Array;
+  codedWidth: number;
+  codedHeight: number;
+  rotation: number;       // Clockwise degrees (0, 90, 180, 270) the picture is turned for display
+  samples: DemuxedSample[]; // Decode order
+}
+
+// Reads from a Blob through a sliding window so header parsing and sequential sample reads
+// do not turn into thousands of tiny slice() calls or load the whole file into memory.
+const READ_WINDOW = 8 * 1024 * 1024;
+
+const createByteReader = (file: Blob) => {
+    let windowStart = 0;
+    let windowBytes = new Uint8Array(0);
+    return async (start: number, length: number): Promise<Uint8Array> => {
+        const end = Math.min(file.size, start + length);
+        if (start < windowStart || end > windowStart + windowBytes.length) {
+            windowStart = start;
+            windowBytes = new Uint8Array(await file.slice(start, Math.min(file.size, start + Math.max(length, READ_WINDOW))).arrayBuffer());
+        }
+        return windowBytes.subarray(start - windowStart, end - windowStart);
+    };
+};
+
+const fourCC = (bytes: Uint8Array, at: number) => String.fromCharCode(bytes[at], bytes[at + 1], bytes[at + 2], bytes[at + 3]);
+const hex2 = (n: number) => n.toString(16).padStart(2, '0');
+const dec2 = (n: number) => n.toString().padStart(2, '0');
+
+// Codec strings follow the WebCodecs codec registry (ISO BMFF / Matroska bindings)
+const avcCodecString = (prefix: string, avcC: Uint8Array) => `${prefix}.${hex2(avcC[1])}${hex2(avcC[2])}${hex2(avcC[3])}`;
+
+const hevcCodecString = (prefix: string, hvcC: Uint8Array) => {
+    const profileSpace = ['', 'A', 'B', 'C'][hvcC[1] >> 6];
+    const tier = (hvcC[1] & 0x20) ? 'H' : 'L';
+    const profileIdc = hvcC[1] & 0x1f;
+    let compat = ((hvcC[2] << 24) | (hvcC[3] << 16) | (hvcC[4] << 8) | hvcC[5]) >>> 0;
+    // Compatibility flags are written bit-reversed
+    let reversed = 0;
+    for (let i = 0; i < 32; i++) {
+        reversed = (reversed << 1) | (compat & 1);
+        compat >>>= 1;
+    }
+    const constraints = Array.from(hvcC.subarray(6, 12));
+    while (constraints.length && constraints[constraints.length - 1] === 0) constraints.pop();
+    const parts = [prefix, `${profileSpace}${profileIdc}`, (reversed >>> 0).toString(16), `${tier}${hvcC[12]}`];
+    if (constraints.length) parts.push(...constraints.map(b => b.toString(16)));
+    return parts.join('.');
+};
+
+const av1CodecString = (av1C: Uint8Array) => {
+    const profile = av1C[1] >> 5;
+    const level = av1C[1] & 0x1f;
+    const tier = (av1C[2] & 0x80) ? 'H' : 'M';
+    const bitDepth = (av1C[2] & 0x40) ? ((av1C[2] & 0x20) ? 12 : 10) : 8;
+    return `av01.${profile}.${dec2(level)}${tier}.${dec2(bitDepth)}`;
+};
+
+// --- MP4 (ISO BMFF) ---
+
+interface Mp4Box {
+  type: string;
+  start: number;          // Payload start (after the header)
+  end: number;
+}
+
+const readMp4Boxes = (bytes: Uint8Array, start: number, end: number): Mp4Box[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const boxes: Mp4Box[] = [];
+    let pos = start;
+    while (pos + 8 <= end) {
+        let size = view.getUint32(pos);
+        const type = fourCC(bytes, pos + 4);
+        let header = 8;
+        if (size === 1) {
+            size = Number(view.getBigUint64(pos + 8));
+            header = 16;
+        } else if (size === 0) {
+            size = end - pos;
+        }
+        if (size < header || pos + size > end) break;
+        boxes.push({ type, start: pos + header, end: pos + size });
+        pos += size;
+    }
+    return boxes;
+};
+
+// Clockwise rotation encoded in a track header's transformation matrix {a, b, u, c, d, v, x, y, w}
+const matrixRotation = (view: DataView, offset: number) => {
+    const a = view.getInt32(offset) / 65536;
+    const b = view.getInt32(offset + 4) / 65536;
+    const degrees = Math.round(Math.atan2(b, a) * 180 / Math.PI / 90) * 90;
+    return (degrees + 360) % 360;
+};
+
+const findMp4Box = (bytes: Uint8Array, parent: Mp4Box, path: string[]): Mp4Box | undefined => {
+    let current: Mp4Box | undefined = parent;
+    for (const type of path) {
+        current = readMp4Boxes(bytes, current.start, current.end).find(b => b.type === type);
+        if (!current) return undefined;
+    }
+    return current;
+};
+
+// Walks top-level box headers until it finds the movie box; media data is never read
+const readMp4Moov = async (file: Blob): Promise<Uint8Array | null> => {
+    let pos = 0;
+    while (pos + 8 <= file.size) {
+        const header = new Uint8Array(await file.slice(pos, pos + 16).arrayBuffer());
+        const view = new DataView(header.buffer);
+        let size = view.getUint32(0);
+        if (size === 1) size = Number(view.getBigUint64(8));
+        else if (size === 0) size = file.size - pos;
+        if (size < 8) return null;
+        if (fourCC(header, 4) === 'moov') {
+            return new Uint8Array(await file.slice(pos, pos + size).arrayBuffer());
+        }
+        pos += size;
+    }
+    return null;
+};
+
+const demuxMp4 = async (file: Blob): Promise<DemuxedTrack | null> => {
+    const moov = await readMp4Moov(file);
+    if (!moov) return null;
+
+    const view = new DataView(moov.buffer);
+    const root = readMp4Boxes(moov, 0, moov.length)[0];
+    const children = readMp4Boxes(moov, root.start, root.end);
+
+    const mvhd = children.find(b => b.type === 'mvhd');
+    const movieTimescale = mvhd ? view.getUint32(mvhd.start + (moov[mvhd.start] === 1 ? 20 : 12)) : 1000;
+
+    for (const trak of children.filter(b => b.type === 'trak')) {
+        const hdlr = findMp4Box(moov, trak, ['mdia', 'hdlr']);
+        if (!hdlr || fourCC(moov, hdlr.start + 8) !== 'vide') continue;
+
+        const mdhd = findMp4Box(moov, trak, ['mdia', 'mdhd']);
+        const stbl = findMp4Box(moov, trak, ['mdia', 'minf', 'stbl']);
+        if (!mdhd || !stbl) return null;
+        const timescale = view.getUint32(mdhd.start + (moov[mdhd.start] === 1 ? 20 : 12));
+        // Phones store portrait video sideways and turn it through the track matrix
+        const tkhd = findMp4Box(moov, trak, ['tkhd']);
+        const rotation = tkhd ? matrixRotation(view, tkhd.start + (moov[tkhd.start] === 1 ? 52 : 40)) : 0;
+        const tables = readMp4Boxes(moov, stbl.start, stbl.end);
+        const table = (type: string) => tables.find(b => b.type === type);
+
+        // Sample description: VisualSampleEntry is 78 bytes before its child boxes
+        const stsd = table('stsd');
+        if (!stsd) return null;
+        const entry = readMp4Boxes(moov, stsd.start + 8, stsd.end)[0];
+        if (!entry) return null;
+        const codedWidth = view.getUint16(entry.start + 24);
+        const codedHeight = view.getUint16(entry.start + 26);
+        const entryBoxes = readMp4Boxes(moov, entry.start + 78, entry.end);
+        const config = (type: string) => {
+            const box = entryBoxes.find(b => b.type === type);
+            return box ? moov.slice(box.start, box.end) : undefined;
+        };
+
+        let codec: string;
+        let description: Uint8Array | undefined;
+        if (entry.type === 'avc1' || entry.type === 'avc3') {
+            description = config('avcC');
+            if (!description) return null;
+            codec = avcCodecString(entry.type, description);
+        } else if (entry.type === 'hvc1' || entry.type === 'hev1') {
+            description = config('hvcC');
+            if (!description) return null;
+            codec = hevcCodecString(entry.type, description);
+        } else if (entry.type === 'vp09') {
+            const vpcC = config('vpcC');
+            if (!vpcC) return null;
+            // vpcC is a full box: skip version/flags
+            codec = `vp09.${dec2(vpcC[4])}.${dec2(vpcC[5])}.${dec2(vpcC[6] >> 4)}`;
+        } else if (entry.type === 'av01') {
+            const av1C = config('av1C');
+            if (!av1C) return null;
+            codec = av1CodecString(av1C);
+            description = av1C;
+        } else {
+            return null;
+        }
+
+        const stts = table('stts');
+        const stsc = table('stsc');
+        const stsz = table('stsz');
+        const stco = table('stco') || table('co64');
+        if (!stts || !stsc || !stsz || !stco) return null;
+
+        // Sample sizes
+        const fixedSize = view.getUint32(stsz.start + 4);
+        const sampleCount = view.getUint32(stsz.start + 8);
+        if (sampleCount === 0) return null; // Fragmented MP4 keeps samples in moof boxes
+        const sizeAt = (i: number) => fixedSize || view.getUint32(stsz.start + 12 + i * 4);
+
+        // Chunk offsets
+        const chunkCount = view.getUint32(stco.start + 4);
+        const chunkOffset = (i: number) => stco.type === 'co64'
+            ? Number(view.getBigUint64(stco.start + 8 + i * 8))
+            : view.getUint32(stco.start + 8 + i * 4);
+
+        // Sample-to-chunk runs -> byte offset of every sample
+        const offsets = new Float64Array(sampleCount);
+        const stscCount = view.getUint32(stsc.start + 4);
+        let sample = 0;
+        for (let e = 0; e < stscCount; e++) {
+            const firstChunk = view.getUint32(stsc.start + 8 + e * 12) - 1;
+            const perChunk = view.getUint32(stsc.start + 12 + e * 12);
+            const lastChunk = e + 1 < stscCount ? view.getUint32(stsc.start + 8 + (e + 1) * 12) - 1 : chunkCount;
+            for (let c = firstChunk; c < lastChunk && sample < sampleCount; c++) {
+                let offset = chunkOffset(c);
+                for (let k = 0; k < perChunk && sample < sampleCount; k++) {
+                    offsets[sample] = offset;
+                    offset += sizeAt(sample);
+                    sample++;
+                }
+            }
+        }
+
+        // Decode times and durations
+        const dts = new Float64Array(sampleCount);
+        const durations = new Float64Array(sampleCount);
+        const sttsCount = view.getUint32(stts.start + 4);
+        let t = 0;
+        sample = 0;
+        for (let e = 0; e < sttsCount; e++) {
+            const count = view.getUint32(stts.start + 8 + e * 8);
+            const delta = view.getUint32(stts.start + 12 + e * 8);
+            for (let k = 0; k < count && sample < sampleCount; k++) {
+                dts[sample] = t;
+                durations[sample] = delta;
+                t += delta;
+                sample++;
+            }
+        }
+
+        // Composition offsets (B-frames); version 1 offsets are signed
+        const cts = new Float64Array(sampleCount);
+        const ctts = table('ctts');
+        if (ctts) {
+            const signed = moov[ctts.start] === 1;
+            const cttsCount = view.getUint32(ctts.start + 4);
+            sample = 0;
+            for (let e = 0; e < cttsCount; e++) {
+                const count = view.getUint32(ctts.start + 8 + e * 8);
+                const offset = signed ? view.getInt32(ctts.start + 12 + e * 8) : view.getUint32(ctts.start + 12 + e * 8);
+                for (let k = 0; k < count && sample < sampleCount; k++) cts[sample++] = offset;
+            }
+        }
+
+        // Sync samples; every sample is a keyframe when the table is absent
+        const stss = table('stss');
+        const keyframes = new Uint8Array(sampleCount).fill(stss ? 0 : 1);
+        if (stss) {
+            const stssCount = view.getUint32(stss.start + 4);
+            for (let e = 0; e < stssCount; e++) keyframes[view.getUint32(stss.start + 8 + e * 4) - 1] = 1;
+        }
+
+        // Edit list: honour the initial empty edit and the media start time the player would use
+        let shift = 0;
+        const elst = findMp4Box(moov, trak, ['edts', 'elst']);
+        if (elst) {
+            const v1 = moov[elst.start] === 1;
+            const entryCount = view.getUint32(elst.start + 4);
+            let p = elst.start + 8;
+            for (let e = 0; e < entryCount; e++) {
+                const segmentDuration = v1 ? Number(view.getBigUint64(p)) : view.getUint32(p);
+                const mediaTime = v1 ? Number(view.getBigInt64(p + 8)) : view.getInt32(p + 4);
+                p += v1 ? 20 : 12;
+                if (mediaTime === -1) {
+                    shift += (segmentDuration / movieTimescale) * timescale;
+                } else {
+                    shift -= mediaTime;
+                    break;
+                }
+            }
+        }
+
+        const toMicros = 1e6 / timescale;
+        const samples: DemuxedSample[] = [];
+        for (let i = 0; i < sampleCount; i++) {
+            samples.push({
+                offset: offsets[i],
+                size: sizeAt(i),
+                timestamp: Math.round((dts[i] + cts[i] + shift) * toMicros),
+                duration: Math.round(durations[i] * toMicros),
+                isKey: keyframes[i] === 1
+            });
+        }
+        return { codec, description, codedWidth, codedHeight, rotation, samples };
+    }
+    return null;
+};
+
+// --- WebM / Matroska ---
+
+const EBML_ID = {
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  DateUTC: 0x4461,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  ReferenceBlock: 0xfb
+};
+
+// Top-level segment children; reaching one of these ends a cluster of unknown size
+const EBML_TOP_LEVEL = new Set([0x114d9b74, EBML_ID.Info, EBML_ID.Tracks, EBML_ID.Cluster, 0x1c53bb6b, 0x1043a770, 0x1254c367, 0x1941a469]);
+
+interface EbmlHeader {
+  id: number;
+  size: number;           // -1 for unknown-size master elements
+  dataStart: number;
+}
+
+// Variable-length integer: the position of the first set bit gives the byte length
+const readVint = (bytes: Uint8Array, at: number, keepMarker: boolean): { value: number; length: number } | null => {
+    const first = bytes[at];
+    if (first === undefined || first === 0) return null;
+    let length = 1;
+    while (!(first & (0x80 >> (length - 1)))) length++;
+    if (at + length > bytes.length) return null;
+    let value = keepMarker ? first : first & (0xff >> length);
+    let allOnes = value === (0xff >> length);
+    for (let i = 1; i < length; i++) {
+        value = value * 256 + bytes[at + i];
+        if (bytes[at + i] !== 0xff) allOnes = false;
+    }
+    return { value: !keepMarker && allOnes ? -1 : value, length };
+};
+
+const readEbmlHeader = async (read: (start: number, length: number) => Promise<Uint8Array>, pos: number): Promise<EbmlHeader | null> => {
+    const bytes = await read(pos, 12);
+    const id = readVint(bytes, 0, true);
+    if (!id) return null;
+    const size = readVint(bytes, id.length, false);
+    if (!size) return null;
+    return { id: id.value, size: size.value, dataStart: pos + id.length + size.length };
+};
+
+const readEbmlUint = (bytes: Uint8Array) => bytes.reduce((v, b) => v * 256 + b, 0);
+
+const demuxWebm = async (file: Blob): Promise<DemuxedTrack | null> => {
+    const read = createByteReader(file);
+
+    // Locate the segment after the EBML header
+    const ebml = await readEbmlHeader(read, 0);
+    if (!ebml || ebml.size < 0) return null;
+    const segment = await readEbmlHeader(read, ebml.dataStart + ebml.size);
+    if (!segment || segment.id !== EBML_ID.Segment) return null;
+    const segmentEnd = segment.size < 0 ? file.size : Math.min(file.size, segment.dataStart + segment.size);
+
+    let timecodeScale = 1000000; // Nanoseconds per tick
+    let videoTrack = -1;
+    let codecId = '';
+    let codecPrivate: Uint8Array | undefined;
+    let codedWidth = 0;
+    let codedHeight = 0;
+    const samples: DemuxedSample[] = [];
+
+    const readChildren = async (start: number, end: number, visit: (h: EbmlHeader) => Promise<void>) => {
+        let pos = start;
+        while (pos < end) {
+            const h = await readEbmlHeader(read, pos);
+            if (!h || h.size < 0) return;
+            await visit(h);
+            pos = h.dataStart + h.size;
+        }
+    };
+
+    const addBlock = async (blockStart: number, blockSize: number, clusterTime: number, simpleKey: boolean | null) => {
+        const bytes = await read(blockStart, 12);
+        const track = readVint(bytes, 0, false);
+        if (!track || track.value !== videoTrack) return;
+        const relative = (bytes[track.length] << 24 >> 16) | bytes[track.length + 1]; // Signed 16-bit
+        const flags = bytes[track.length + 2];
+        if (flags & 0x06) return; // Laced blocks are not used for video in practice
+        const header = track.length + 3;
+        samples.push({
+            offset: blockStart + header,
+            size: blockSize - header,
+            timestamp: Math.round(((clusterTime + relative) * timecodeScale) / 1000),
+            duration: 0,
+            isKey: simpleKey ?? !!(flags & 0x80)
+        });
+    };
+
+    let pos = segment.dataStart;
+    while (pos < segmentEnd) {
+        const h = await readEbmlHeader(read, pos);
+        if (!h) break;
+
+        if (h.id === EBML_ID.Info && h.size >= 0) {
+            await readChildren(h.dataStart, h.dataStart + h.size, async c => {
+                if (c.id === EBML_ID.TimecodeScale) timecodeScale = readEbmlUint(await read(c.dataStart, c.size));
+            });
+        } else if (h.id === EBML_ID.Tracks && h.size >= 0) {
+            await readChildren(h.dataStart, h.dataStart + h.size, async entry => {
+                if (entry.id !== EBML_ID.TrackEntry || videoTrack !== -1) return;
+                let number = -1;
+                let type = 0;
+                let codec = '';
+                let priv: Uint8Array | undefined;
+                let w = 0;
+                let hgt = 0;
+                await readChildren(entry.dataStart, entry.dataStart + entry.size, async c => {
+                    if (c.id === EBML_ID.TrackNumber) number = readEbmlUint(await read(c.dataStart, c.size));
+                    else if (c.id === EBML_ID.TrackType) type = readEbmlUint(await read(c.dataStart, c.size));
+                    else if (c.id === EBML_ID.CodecID) codec = new TextDecoder().decode(await read(c.dataStart, c.size));
+                    else if (c.id === EBML_ID.CodecPrivate) priv = (await read(c.dataStart, c.size)).slice();
+                    else if (c.id === EBML_ID.Video) {
+                        await readChildren(c.dataStart, c.dataStart + c.size, async v => {
+                            if (v.id === EBML_ID.PixelWidth) w = readEbmlUint(await read(v.dataStart, v.size));
+                            else if (v.id === EBML_ID.PixelHeight) hgt = readEbmlUint(await read(v.dataStart, v.size));
+                        });
+                    }
+                });
+                if (type === 1) {
+                    videoTrack = number;
+                    codecId = codec;
+                    codecPrivate = priv;
+                    codedWidth = w;
+                    codedHeight = hgt;
+                }
+            });
+        } else if (h.id === EBML_ID.Cluster) {
+            if (videoTrack === -1) return null;
+            // Clusters written by MediaRecorder often have unknown size, so walk children until the next top-level element
+            const clusterEnd = h.size < 0 ? segmentEnd : h.dataStart + h.size;
+            let clusterTime = 0;
+            let c = h.dataStart;
+            let next = clusterEnd;
+            while (c < clusterEnd) {
+                const child = await readEbmlHeader(read, c);
+                if (!child || child.size < 0) break;
+                if (EBML_TOP_LEVEL.has(child.id)) {
+                    next = c;
+                    break;
+                }
+                if (child.id === EBML_ID.Timecode) {
+                    clusterTime = readEbmlUint(await read(child.dataStart, child.size));
+                } else if (child.id === EBML_ID.SimpleBlock) {
+                    await addBlock(child.dataStart, child.size, clusterTime, null);
+                } else if (child.id === EBML_ID.BlockGroup) {
+                    let block: EbmlHeader | null = null;
+                    let hasReference = false;
+                    await readChildren(child.dataStart, child.dataStart + child.size, async g => {
+                        if (g.id === EBML_ID.Block) block = g;
+                        else if (g.id === EBML_ID.ReferenceBlock) hasReference = true;
+                    });
+                    const b = block as EbmlHeader | null;
+                    if (b) await addBlock(b.dataStart, b.size, clusterTime, !hasReference);
+                }
+                c = child.dataStart + child.size;
+            }
+            pos = next;
+            continue;
+        }
+
+        if (h.size < 0) break;
+        pos = h.dataStart + h.size;
+    }
+
+    if (videoTrack === -1 || samples.length === 0) return null;
+
+    // Matroska stores no per-frame duration for SimpleBlocks; derive it from presentation order
+    const byTime = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+    for (let i = 0; i < byTime.length; i++) {
+        byTime[i].duration = i + 1 < byTime.length ? byTime[i + 1].timestamp - byTime[i].timestamp : (byTime[i - 1]?.duration ?? 33333);
+    }
+
+    let codec: string;
+    let description: Uint8Array | undefined;
+    if (codecId === 'V_VP8') {
+        codec = 'vp8';
+    } else if (codecId === 'V_VP9') {
+        codec = 'vp09.00.10.08';
+    } else if (codecId === 'V_AV1' && codecPrivate) {
+        codec = av1CodecString(codecPrivate);
+        description = codecPrivate;
+    } else if (codecId === 'V_MPEG4/ISO/AVC' && codecPrivate) {
+        codec = avcCodecString('avc1', codecPrivate);
+        description = codecPrivate;
+    } else if (codecId === 'V_MPEGH/ISO/HEVC' && codecPrivate) {
+        codec = hevcCodecString('hvc1', codecPrivate);
+        description = codecPrivate;
+    } else {
+        return null;
+    }
+    // Matroska has no widely used rotation field
+    return { codec, description, codedWidth, codedHeight, rotation: 0, samples };
+};
+
+const demuxVideo = async (file: Blob): Promise<DemuxedTrack | null> => {
+    const head = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+    if (head.length < 12) return null;
+    if (fourCC(head, 4) === 'ftyp') return demuxMp4(file);
+    if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) return demuxWebm(file);
+    return null;
+};
+
+const DEFAULT_FRAME_DURATION = 1 / 30;
+
+// Coarse step for the lightbox stepping controls, in seconds
+const STEP_SECONDS = 0.1;
+
+// Seconds per source frame: the median gap between presentation timestamps, which ignores the odd dropped frame
+const detectFrameDuration = async (file: Blob): Promise<number> => {
+    const track = await demuxVideo(file).catch(() => null);
+    if (!track || track.samples.length < 2) return DEFAULT_FRAME_DURATION;
+    const times = track.samples.map(s => s.timestamp).sort((a, b) => a - b);
+    const gaps = times.slice(1).map((t, i) => t - times[i]).filter(g => g > 0).sort((a, b) => a - b);
+    return gaps.length ? gaps[Math.floor(gaps.length / 2)] / 1e6 : DEFAULT_FRAME_DURATION;
+};
+
+// Seconds between the container epochs and the Unix epoch
+const MP4_EPOCH_OFFSET = 2082844800;   // 1904-01-01
+const MATROSKA_EPOCH_OFFSET = 978307200; // 2001-01-01
+
+/**
+ * Recording start time stored by the container (MP4 mvhd creation_time or Matroska DateUTC),
+ * in milliseconds since the Unix epoch. Null when absent or unset, as many editors write zero.
+ */
+const readContainerCreationTime = async (file: Blob): Promise<number | null> => {
+    const head = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+    if (head.length < 12) return null;
+
+    if (fourCC(head, 4) === 'ftyp') {
+        const moov = await readMp4Moov(file);
+        if (!moov) return null;
+        const root = readMp4Boxes(moov, 0, moov.length)[0];
+        const mvhd = root && readMp4Boxes(moov, root.start, root.end).find(b => b.type === 'mvhd');
+        if (!mvhd) return null;
+        const view = new DataView(moov.buffer);
+        const seconds = moov[mvhd.start] === 1 ? Number(view.getBigUint64(mvhd.start + 4)) : view.getUint32(mvhd.start + 4);
+        return seconds > MP4_EPOCH_OFFSET ? (seconds - MP4_EPOCH_OFFSET) * 1000 : null;
+    }
+
+    if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) {
+        const read = createByteReader(file);
+        const ebml = await readEbmlHeader(read, 0);
+        if (!ebml || ebml.size < 0) return null;
+        const segment = await readEbmlHeader(read, ebml.dataStart + ebml.size);
+        if (!segment || segment.id !== EBML_ID.Segment) return null;
+        // Info normally precedes the first cluster; stop there rather than scanning media data
+        let pos = segment.dataStart;
+        for (let h = await readEbmlHeader(read, pos); h && h.size >= 0 && h.id !== EBML_ID.Cluster; h = await readEbmlHeader(read, pos)) {
+            if (h.id === EBML_ID.Info) {
+                let c = h.dataStart;
+                while (c < h.dataStart + h.size) {
+                    const child = await readEbmlHeader(read, c);
+                    if (!child || child.size < 0) break;
+                    if (child.id === EBML_ID.DateUTC && child.size === 8) {
+                        const bytes = await read(child.dataStart, 8);
+                        const nanos = new DataView(bytes.buffer, bytes.byteOffset, 8).getBigInt64(0);
+                        return Number(nanos / 1000000n) + MATROSKA_EPOCH_OFFSET * 1000;
+                    }
+                    c = child.dataStart + child.size;
+                }
+                return null;
+            }
+            pos = h.dataStart + h.size;
+        }
+    }
+    return null;
+};
+
+// Frames after the target sample (in decode order) that may still be needed because of B-frame reordering
+const REORDER_SLACK = 8;
+const MAX_DECODE_QUEUE = 16;
+
+// Decoders hand frames out in stored orientation. Returns a function that copies a frame upright for display,
+// or passes it through unchanged when the track is not rotated.
+const createFrameOrienter = (rotation: number) => {
+    const canvas = rotation === 0 ? null : document.createElement('canvas');
+    const ctx = canvas?.getContext('2d');
+    return (frame: VideoFrame): VideoFrame => {
+        if (!canvas || !ctx) return frame;
+        const { displayWidth: width, displayHeight: height } = frame;
+        const sideways = rotation % 180 !== 0;
+        // Resizing also resets the transform
+        canvas.width = sideways ? height : width;
+        canvas.height = sideways ? width : height;
+        ctx.translate(canvas.width / 2, canvas.height / 2);
+        ctx.rotate((rotation * Math.PI) / 180);
+        ctx.drawImage(frame, -width / 2, -height / 2, width, height);
+        return new VideoFrame(canvas, { timestamp: frame.timestamp, duration: frame.duration ?? undefined });
+    };
+};
+
+/**
+ * Decodes the video sequentially with WebCodecs and calls `onFrame` with the frame nearest each target time
+ * (seconds). When sampling faster than the source frame rate one frame covers several targets: `onFrame` gets
+ * the first of them and how many it covers. GOPs that contain no target are skipped. Resolves to false, without emitting anything, when
+ * WebCodecs, the container or the codec is unsupported so the caller can fall back to seeking a <video>.
+ * Frames are turned upright by the container's rotation, matching what a <video> element displays.
+ * Aborting `signal` stops decoding early; it still resolves to true.
+ */
+const decodeFramesAt = async (
+    file: Blob,
+    targetTimes: number[],
+    onFrame: (frame: VideoFrame, targetIndex: number, targetCount: number) => Promise<void>,
+    signal?: AbortSignal
+): Promise<boolean> => {
+    if (typeof VideoDecoder === 'undefined' || typeof EncodedVideoChunk === 'undefined' || targetTimes.length === 0) return false;
+
+    let track: DemuxedTrack | null = null;
+    try {
+        track = await demuxVideo(file);
+    } catch (e) {
+        console.warn("Could not demux video for WebCodecs:", e);
+    }
+    if (!track || track.samples.length === 0) return false;
+
+    const config: VideoDecoderConfig = {
+        codec: track.codec,
+        description: track.description,
+        codedWidth: track.codedWidth,
+        codedHeight: track.codedHeight
+    };
+    const support = await VideoDecoder.isConfigSupported(config).catch(() => null);
+    if (!support?.supported) return false;
+
+    const { samples } = track;
+    const targets = targetTimes.map(t => t * 1e6);
+
+    // Work out which decode-order ranges are needed: from the keyframe before each target's sample
+    // up to that sample plus some reorder slack. Overlapping ranges are merged.
+    const presentation = samples.map((_, i) => i).sort((a, b) => samples[a].timestamp - samples[b].timestamp);
+    const keyBefore = new Int32Array(samples.length);
+    for (let i = 0, key = 0; i < samples.length; i++) {
+        if (samples[i].isKey) key = i;
+        keyBefore[i] = key;
+    }
+    const runs: [number, number][] = [];
+    let p = 0;
+    for (const target of targets) {
+        while (p + 1 < presentation.length && samples[presentation[p + 1]].timestamp <= target) p++;
+        const index = presentation[p];
+        const start = keyBefore[index];
+        const end = Math.min(samples.length - 1, index + REORDER_SLACK);
+        const last = runs[runs.length - 1];
+        if (last && start <= last[1] + 1) last[1] = Math.max(last[1], end);
+        else runs.push([start, end]);
+    }
+
+    const outputs: VideoFrame[] = [];
+    let decodeError: unknown = null;
+    const decoder = new VideoDecoder({
+        output: frame => outputs.push(frame),
+        error: e => { decodeError = e; }
+    });
+    decoder.configure(config);
+
+    const read = createByteReader(file);
+    const orient = createFrameOrienter(track.rotation);
+    let targetIndex = 0;
+
+    // Hand each decoded frame to the caller for the targets it is closest to; everything else is dropped
+    const drainOutputs = async () => {
+        while (outputs.length) {
+            const frame = outputs.shift()!;
+            try {
+                const half = (frame.duration ?? 0) / 2;
+                const first = targetIndex;
+                while (targetIndex < targets.length && frame.timestamp + half >= targets[targetIndex]) targetIndex++;
+                if (targetIndex > first && !signal?.aborted) {
+                    const upright = orient(frame);
+                    try {
+                        await onFrame(upright, first, targetIndex - first);
+                    } finally {
+                        if (upright !== frame) upright.close();
+                    }
+                }
+            } finally {
+                frame.close();
+            }
+        }
+    };
+
+    try {
+        for (const [start, end] of runs) {
+            for (let i = start; i <= end && targetIndex < targets.length; i++) {
+                if (signal?.aborted) return true;
+                if (decodeError) throw decodeError;
+                const sample = samples[i];
+                const data = await read(sample.offset, sample.size);
+                decoder.decode(new EncodedVideoChunk({
+                    type: sample.isKey ? 'key' : 'delta',
+                    timestamp: sample.timestamp,
+                    duration: sample.duration,
+                    data
+                }));
+                await drainOutputs();
+                // Backpressure: let the decoder catch up instead of queueing the whole file
+                while (decoder.decodeQueueSize > MAX_DECODE_QUEUE && !decodeError) {
+                    await new Promise(resolve => setTimeout(resolve, 1));
+                    await drainOutputs();
+                }
+            }
+            if (targetIndex >= targets.length || signal?.aborted) break;
+        }
+        if (signal?.aborted) return true;
+        if (decodeError) throw decodeError;
+        await decoder.flush();
+        await drainOutputs();
+    } finally {
+        outputs.forEach(f => f.close());
+        if (decoder.state !== 'closed') decoder.close();
+    }
+    return true;
+};
+
+// --- Errors ---
+
+// Failure categories that get their own message, so users learn why a video could not be used
+type ErrorKind = 'metadata' | 'metadataTimeout' | 'unsupportedCodec' | 'canvas' | 'extraction';
+
+type CategorizedError = Error & { kind: ErrorKind; detail?: string };
+
+const categorizedError = (kind: ErrorKind, message: string, detail?: string): CategorizedError =>
+    Object.assign(new Error(message), { kind, detail });
+
+const isCategorizedError = (e: unknown): e is CategorizedError => e instanceof Error && 'kind' in e;
+
+// How long a <video> may take to report its metadata before the file is given up on
+const METADATA_TIMEOUT_MS = 10000;
+
+// Display names for the leading part of WebCodecs codec strings
+const CODEC_NAMES: Record<string, string> = {
+  avc1: 'H.264',
+  avc3: 'H.264',
+  hvc1: 'HEVC (H.265)',
+  hev1: 'HEVC (H.265)',
+  vp8: 'VP8',
+  vp09: 'VP9',
+  av01: 'AV1'
+};
+
+/**
+ * Checks before extraction whether this browser can decode the file's video track, through either a <video>
+ * element or WebCodecs. Resolves to the codec's display name when neither can. Resolves null when the codec is
+ * supported or the container could not be parsed, in which case loading the video decides.
+ */
+const findUnsupportedCodec = async (file: Blob): Promise<string | null> => {
+    const track = await demuxVideo(file).catch(() => null);
+    if (!track) return null;
+    const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+    const container = head[0] === 0x1a && head[1] === 0x45 ? 'video/webm' : 'video/mp4';
+    if (document.createElement('video').canPlayType(`${container}; codecs="${track.codec}"`) !== '') return null;
+    if (typeof VideoDecoder !== 'undefined') {
+        const support = await VideoDecoder.isConfigSupported({
+            codec: track.codec,
+            description: track.description,
+            codedWidth: track.codedWidth,
+            codedHeight: track.codedHeight
+        }).catch(() => null);
+        if (support?.supported) return null;
+    }
+    return CODEC_NAMES[track.codec.split('.')[0]] ?? track.codec;
+};
+
+// --- Video Element Helpers ---
+
+// Creates a hidden <video> for the file and waits for its metadata. Rejects (and cleans up) on error or timeout
+// with a CategorizedError; a file whose video track cannot be decoded counts as an unsupported codec.
+const loadVideoElement = async (file: Blob): Promise<HTMLVideoElement> => {
+    const video = document.createElement('video');
+    video.src = URL.createObjectURL(file);
+    video.muted = true;
+    video.playsInline = true;
+    video.autoplay = true; // Helps 'wake up' decoders on some mobile devices
+    video.crossOrigin = "anonymous";
+    
+    // IMPORTANT: Mobile browsers often won't decode if completely off-screen or opacity 0.
+    // We make it technically visible but tiny and transparent-ish.
+    video.style.position = 'fixed';
+    video.style.top = '0';
+    video.style.left = '0';
+    video.style.width = '1px';
+    video.style.height = '1px';
+    video.style.opacity = '0.01';
+    video.style.pointerEvents = 'none';
+    video.style.zIndex = '-1000';
+    
+    document.body.appendChild(video);
+
+    // Wait for metadata to load
+    try {
+        await new Promise((resolve, reject) => {
+        video.onloadedmetadata = () => resolve(null);
+        video.onerror = () => reject(categorizedError('metadata', video.error?.message || 'Video could not be loaded'));
+        // Timeout just in case
+        setTimeout(() => reject(categorizedError('metadataTimeout', 'Video load timeout')), METADATA_TIMEOUT_MS);
+        });
+        // Audio plays but the picture stays blank when only the video codec is unsupported
+        if (video.videoWidth === 0) throw categorizedError('unsupportedCodec', 'No decodable video track');
+    } catch (e) {
+        releaseVideoElement(video);
+        throw e;
+    }
+    return video;
+};
+
+const releaseVideoElement = (video: HTMLVideoElement) => {
+    URL.revokeObjectURL(video.src);
+    if (video.parentNode) {
+        document.body.removeChild(video);
+    }
+    video.remove();
+};
+
+// Seeks and waits until the frame is actually drawable. Resolves false if the seek timed out.
+const seekVideo = (video: HTMLVideoElement, time: number): Promise<boolean> => {
+    video.currentTime = time;
+
+    // Wait for seek to complete and frame to be ready, with a timeout safeguard
+    return new Promise((resolve, reject) => {
+        // Timed-out seeks are counted in the extraction report rather than logged one by one
+        const timeoutId = setTimeout(() => resolve(false), 2000); // 2 second max wait per frame
+
+        const onSeeked = () => {
+            // Ensure we have data to draw. Mobile sometimes needs a slightly higher readyState 
+            // or just a tiny bit more time even after seeked fires.
+            if (video.readyState >= 2) { // HAVE_CURRENT_DATA or better
+                clearTimeout(timeoutId);
+                // Double rAF to ensure the frame is actually painted to the video element's internal buffer
+                requestAnimationFrame(() => {
+                    requestAnimationFrame(() => resolve(true));
+                });
+            } else {
+                // If seeked fired but data isn't ready, wait a tiny bit more
+                setTimeout(onSeeked, 50);
+            }
+        };
+
+        video.onseeked = onSeeked;
+        video.onerror = (e) => {
+             clearTimeout(timeoutId);
+             reject(e);
+        }
+    });
+};
+
+/**
+ * Re-reads frames at the given times (seconds, ascending) straight from the source video, so callers get
+ * decoded pixels rather than the lossy extraction JPEG. Uses WebCodecs when possible, else seeks a <video>.
+ * `onFrame` receives the index of the requested time; times that land on an already-emitted frame, or whose
+ * seek times out, are skipped.
+ */
+const captureFramesAt = async (
+    file: Blob,
+    times: number[],
+    onFrame: (image: CanvasImageSource, width: number, height: number, index: number) => Promise<void>,
+    signal?: AbortSignal
+): Promise<void> => {
+    const decoded = await decodeFramesAt(file, times, (frame, index) =>
+        onFrame(frame, frame.displayWidth, frame.displayHeight, index), signal);
+    if (decoded) return;
+
+    const video = await loadVideoElement(file);
+    try {
+        for (let i = 0; i < times.length && !signal?.aborted; i++) {
+            // A timed-out seek would hand over whatever frame the video happened to show last
+            if (!await seekVideo(video, times[i])) continue;
+            await onFrame(video, video.videoWidth, video.videoHeight, i);
+        }
+    } finally {
+        releaseVideoElement(video);
+    }
+};
+
+// --- Off-Main-Thread Encoding ---
+
+interface EncodedFrame {
+  blob: Blob;
+  thumbnail: Blob;
+  sample: LumaSample;
+}
+
+interface FrameEncoder {
+  // Takes ownership of the bitmap (it is transferred or closed)
+  encode(image: ImageBitmap): Promise<EncodedFrame | null>;
+  close(): void;
+}
+
+const FRAME_MIME_TYPE = 'image/jpeg';
+const FRAME_QUALITY = 0.92;
+
+// The gallery grid shows small thumbnails; full-resolution stills are only read for the lightbox and export
+const THUMBNAIL_EDGE = 640;
+const THUMBNAIL_QUALITY = 0.8;
+
+// Long edge scaled down to THUMBNAIL_EDGE, never up
+const thumbnailSize = (width: number, height: number) => {
+    const scale = Math.min(1, THUMBNAIL_EDGE / Math.max(width, height));
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// The worker reuses the exact luma sampler from this module (Babel has already stripped its types),
+// so analysis results are identical whichever encoder runs.
+const ENCODER_WORKER_SOURCE = `
+const QUALITY_SAMPLE_SIZE = ${QUALITY_SAMPLE_SIZE};
+const THUMBNAIL_EDGE = ${THUMBNAIL_EDGE};
+const sampleLuma = ${sampleLuma.toString()};
+const thumbnailSize = ${thumbnailSize.toString()};
+let canvas = null;
+let ctx = null;
+let thumbCanvas = null;
+self.onmessage = async (e) => {
+  const { id, image, width, height, type, quality, thumbnailQuality } = e.data;
+  try {
+    if (!canvas || canvas.width !== width || canvas.height !== height) {
+      canvas = new OffscreenCanvas(width, height);
+      ctx = canvas.getContext('2d', { willReadFrequently: true });
+      const thumb = thumbnailSize(width, height);
+      thumbCanvas = new OffscreenCanvas(thumb.width, thumb.height);
+    }
+    ctx.drawImage(image, 0, 0, width, height);
+    image.close();
+    const sample = sampleLuma(ctx, width, height);
+    const blob = await canvas.convertToBlob({ type, quality });
+    thumbCanvas.getContext('2d').drawImage(canvas, 0, 0, thumbCanvas.width, thumbCanvas.height);
+    const thumbnail = await thumbCanvas.convertToBlob({ type, quality: thumbnailQuality });
+    self.postMessage({ id, blob, thumbnail, sample }, [sample.luma.buffer]);
+  } catch (error) {
+    self.postMessage({ id, error: String(error) });
+  }
+};
+`;
+
+const createWorkerEncoder = (width: number, height: number): FrameEncoder => {
+    const url = URL.createObjectURL(new Blob([ENCODER_WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    const pending = new Map<number, { resolve: (r: EncodedFrame | null) => void; reject: (e: unknown) => void }>();
+    let nextId = 0;
+
+    worker.onmessage = (e: MessageEvent<{ id: number; blob?: Blob; thumbnail?: Blob; sample?: LumaSample; error?: string }>) => {
+        const { id, blob, thumbnail, sample, error } = e.data;
+        const request = pending.get(id);
+        if (!request) return;
+        pending.delete(id);
+        if (error) request.reject(new Error(error));
+        else request.resolve(blob && thumbnail && sample ? { blob, thumbnail, sample } : null);
+    };
+    worker.onerror = (e) => {
+        pending.forEach(r => r.reject(e));
+        pending.clear();
+    };
+
+    return {
+        encode: (image) => new Promise((resolve, reject) => {
+            const id = nextId++;
+            pending.set(id, { resolve, reject });
+            worker.postMessage({ id, image, width, height, type: FRAME_MIME_TYPE, quality: FRAME_QUALITY, thumbnailQuality: THUMBNAIL_QUALITY }, [image]);
+        }),
+        close: () => {
+            worker.terminate();
+            URL.revokeObjectURL(url);
+            pending.forEach(r => r.resolve(null));
+            pending.clear();
+        }
+    };
+};
+
+const createMainThreadEncoder = (width: number, height: number): FrameEncoder | null => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    const thumbCanvas = document.createElement('canvas');
+    Object.assign(thumbCanvas, thumbnailSize(width, height));
+    const thumbCtx = thumbCanvas.getContext('2d');
+    if (!ctx || !thumbCtx) return null;
+
+    return {
+        encode: async (image) => {
+            ctx.drawImage(image, 0, 0, width, height);
+            image.close();
+            const sample = sampleLuma(ctx, width, height);
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, FRAME_MIME_TYPE, FRAME_QUALITY));
+            thumbCtx.drawImage(canvas, 0, 0, thumbCanvas.width, thumbCanvas.height);
+            const thumbnail = await new Promise<Blob | null>(resolve => thumbCanvas.toBlob(resolve, FRAME_MIME_TYPE, THUMBNAIL_QUALITY));
+            return blob && thumbnail ? { blob, thumbnail, sample } : null;
+        },
+        close: () => {
+            canvas.remove();
+            thumbCanvas.remove();
+        }
+    };
+};
+
+// Prefers a Web Worker with OffscreenCanvas; falls back to encoding on the main thread
+const createFrameEncoder = (width: number, height: number): FrameEncoder | null => {
+    if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && 'convertToBlob' in OffscreenCanvas.prototype) {
+        try {
+            return createWorkerEncoder(width, height);
+        } catch (e) {
+            console.warn("Could not start encoder worker, encoding on the main thread:", e);
+        }
+    }
+    return createMainThreadEncoder(width, height);
+};
+
+// Thumbnail for a still that was stored without one (sessions saved before thumbnails existed)
+const createThumbnail = async (blob: Blob): Promise<Blob | null> => {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    Object.assign(canvas, thumbnailSize(bitmap.width, bitmap.height));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const thumbnail = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, FRAME_MIME_TYPE, THUMBNAIL_QUALITY));
+    canvas.remove();
+    return thumbnail;
+};
+
+interface CapturedStill {
+  blob: Blob;
+  thumbnail: Blob;
+  quality: FrameQuality;
+  hash: string;
+}
+
+// Encodes and analyses whatever the video shows at `time`, for stills captured outside an extraction run
+const captureStill = async (video: HTMLVideoElement, time: number): Promise<CapturedStill | null> => {
+    if (!await seekVideo(video, time)) return null;
+    const encoder = createMainThreadEncoder(video.videoWidth, video.videoHeight);
+    if (!encoder) return null;
+    const encoded = await encoder.encode(await createImageBitmap(video));
+    encoder.close();
+    return encoded && {
+        blob: encoded.blob,
+        thumbnail: encoded.thumbnail,
+        quality: computeFrameQuality(encoded.sample),
+        hash: computePerceptualHash(encoded.sample)
+    };
+};
+
+// --- Multi-Frame Stacking ---
+
+type StackMode = 'median' | 'mean';
+
+const STACK_SIZES = [3, 5, 7, 9];
+const DEFAULT_STACK_SIZE = 5;
+const STACK_COARSEST_WIDTH = 96;  // Alignment starts on a pyramid level about this wide
+const STACK_SEARCH_RADIUS = 4;    // Pixels searched at the coarsest level; finer levels refine by one
+
+interface LumaLevel {
+  luma: Float32Array;
+  width: number;
+  height: number;
+}
+
+// Green carries most of the luminance, so alignment on it matches luma alignment closely
+const greenLevel = (rgba: Uint8ClampedArray, width: number, height: number): LumaLevel => {
+    const w = width >> 1;
+    const h = height >> 1;
+    const luma = new Float32Array(w * h);
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+            const i = ((y * 2) * width + x * 2) * 4 + 1;
+            luma[y * w + x] = (rgba[i] + rgba[i + 4] + rgba[i + width * 4] + rgba[i + width * 4 + 4]) / 4;
+        }
+    }
+    return { luma, width: w, height: h };
+};
+
+const halveLevel = ({ luma, width, height }: LumaLevel): LumaLevel => {
+    const w = width >> 1;
+    const h = height >> 1;
+    const out = new Float32Array(w * h);
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+            const i = (y * 2) * width + x * 2;
+            out[y * w + x] = (luma[i] + luma[i + 1] + luma[i + width] + luma[i + width + 1]) / 4;
+        }
+    }
+    return { luma: out, width: w, height: h };
+};
+
+// Half resolution down to about STACK_COARSEST_WIDTH; the full-resolution level is never materialized
+const buildLumaPyramid = (rgba: Uint8ClampedArray, width: number, height: number): LumaLevel[] => {
+    const levels = [greenLevel(rgba, width, height)];
+    while (levels[levels.length - 1].width >= STACK_COARSEST_WIDTH * 2) levels.push(halveLevel(levels[levels.length - 1]));
+    return levels;
+};
+
+// Mean absolute difference between ref(x, y) and img(x + dx, y + dy) over the overlapping interior
+const shiftCost = (ref: Float32Array, img: Float32Array, width: number, height: number, dx: number, dy: number, margin: number) => {
+    const step = width > 512 ? 2 : 1;
+    let sum = 0;
+    let count = 0;
+    for (let y = margin; y < height - margin; y += step) {
+        const row = y * width;
+        const shiftedRow = (y + dy) * width + dx;
+        for (let x = margin; x < width - margin; x += step) {
+            sum += Math.abs(ref[row + x] - img[shiftedRow + x]);
+            count++;
+        }
+    }
+    return count ? sum / count : Infinity;
+};
+
+// Coarse-to-fine integer translation that maps the reference onto `pyramid`, in full-resolution pixels
+const estimateShift = (refPyramid: LumaLevel[], pyramid: LumaLevel[]) => {
+    let dx = 0;
+    let dy = 0;
+    for (let level = pyramid.length - 1; level >= 0; level--) {
+        const coarsest = level === pyramid.length - 1;
+        if (!coarsest) {
+            dx *= 2;
+            dy *= 2;
+        }
+        const radius = coarsest ? STACK_SEARCH_RADIUS : 1;
+        const { width, height } = pyramid[level];
+        const margin = Math.max(Math.abs(dx), Math.abs(dy)) + radius + 1;
+        let best = { dx, dy, cost: Infinity };
+        for (let oy = -radius; oy <= radius; oy++) {
+            for (let ox = -radius; ox <= radius; ox++) {
+                const cost = shiftCost(refPyramid[level].luma, pyramid[level].luma, width, height, dx + ox, dy + oy, margin);
+                if (cost < best.cost) best = { dx: dx + ox, dy: dy + oy, cost };
+            }
+        }
+        dx = best.dx;
+        dy = best.dy;
+    }
+    // The finest level is half resolution
+    return { dx: dx * 2, dy: dy * 2 };
+};
+
+/**
+ * Aligns every frame to frames[0] by translation, then merges them per channel with a temporal
+ * median (robust to things moving through the shot) or mean (strongest noise reduction).
+ */
+const stackFrames = (frames: Uint8ClampedArray[], width: number, height: number, mode: StackMode) => {
+    const refPyramid = buildLumaPyramid(frames[0], width, height);
+    const shifts = frames.map((frame, i) => i === 0 ? { dx: 0, dy: 0 } : estimateShift(refPyramid, buildLumaPyramid(frame, width, height)));
+
+    const out = new Uint8ClampedArray(width * height * 4);
+    const values = new Float32Array(frames.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const o = (y * width + x) * 4;
+            for (let c = 0; c < 3; c++) {
+                let count = 0;
+                for (let i = 0; i < frames.length; i++) {
+                    const sx = x + shifts[i].dx;
+                    const sy = y + shifts[i].dy;
+                    if (sx < 0 || sy < 0 || sx >= width || sy >= height) continue;
+                    const v = frames[i][(sy * width + sx) * 4 + c];
+                    // Insertion sort keeps `values` ordered for the median
+                    let k = count++;
+                    while (k > 0 && values[k - 1] > v) {
+                        values[k] = values[k - 1];
+                        k--;
+                    }
+                    values[k] = v;
+                }
+                if (mode === 'median') {
+                    out[o + c] = count % 2 ? values[count >> 1] : (values[(count >> 1) - 1] + values[count >> 1]) / 2;
+                } else {
+                    let sum = 0;
+                    for (let k = 0; k < count; k++) sum += values[k];
+                    out[o + c] = sum / count;
+                }
+            }
+            out[o + 3] = 255;
+        }
+    }
+    return out;
+};
+
+// Like the encoder worker, the stacking worker is assembled from the functions above
+const STACK_WORKER_SOURCE = `
+const STACK_COARSEST_WIDTH = ${STACK_COARSEST_WIDTH};
+const STACK_SEARCH_RADIUS = ${STACK_SEARCH_RADIUS};
+const greenLevel = ${greenLevel.toString()};
+const halveLevel = ${halveLevel.toString()};
+const buildLumaPyramid = ${buildLumaPyramid.toString()};
+const shiftCost = ${shiftCost.toString()};
+const estimateShift = ${estimateShift.toString()};
+const stackFrames = ${stackFrames.toString()};
+let frames = [];
+self.onmessage = (e) => {
+  const { frame, width, height, mode } = e.data;
+  if (frame) {
+    frames.push(new Uint8ClampedArray(frame));
+    return;
+  }
+  try {
+    const result = stackFrames(frames, width, height, mode);
+    frames = [];
+    self.postMessage({ result: result.buffer }, [result.buffer]);
+  } catch (error) {
+    self.postMessage({ error: String(error) });
+  }
+};
+`;
+
+interface FrameStacker {
+  add: (image: ImageData) => void;  // Transfers the pixels, so `image` is unusable afterwards
+  stack: (mode: StackMode) => Promise<ImageData>;
+  close: () => void;
+}
+
+// Frames are handed to the worker as they are captured, so the main thread never holds more than one
+const createWorkerStacker = (width: number, height: number): FrameStacker => {
+    const url = URL.createObjectURL(new Blob([STACK_WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+
+    return {
+        add: (image) => {
+            const buffer = image.data.buffer as ArrayBuffer;
+            worker.postMessage({ frame: buffer }, [buffer]);
+        },
+        stack: (mode) => new Promise((resolve, reject) => {
+            worker.onmessage = (e: MessageEvent<{ result?: ArrayBuffer; error?: string }>) => {
+                if (e.data.result) resolve(new ImageData(new Uint8ClampedArray(e.data.result), width, height));
+                else reject(new Error(e.data.error ?? 'Stacking failed'));
+            };
+            worker.onerror = reject;
+            worker.postMessage({ width, height, mode });
+        }),
+        close: () => {
+            worker.terminate();
+            URL.revokeObjectURL(url);
+        }
+    };
+};
+
+// Reads each time's pixels (the first is the alignment reference), merges them and encodes the result like a capture.
+// Times that cannot be seeked are skipped, so `stackedFrames` may be fewer than `times`
+const captureStackedStill = async (
+    video: HTMLVideoElement,
+    times: number[],
+    mode: StackMode
+): Promise<(CapturedStill & { stackedFrames: number }) | null> => {
+    const width = video.videoWidth;
+    const height = video.videoHeight;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    const stacker = createWorkerStacker(width, height);
+    let stackedFrames = 0;
+    let merged: ImageData;
+    try {
+        for (const time of times) {
+            if (!await seekVideo(video, time)) continue;
+            ctx.drawImage(video, 0, 0, width, height);
+            stacker.add(ctx.getImageData(0, 0, width, height));
+            stackedFrames++;
+        }
+        canvas.remove();
+        if (stackedFrames < 2) return null;
+        merged = await stacker.stack(mode);
+    } finally {
+        stacker.close();
+    }
+
+    const encoder = createMainThreadEncoder(width, height);
+    if (!encoder) return null;
+    const encoded = await encoder.encode(await createImageBitmap(merged));
+    encoder.close();
+    return encoded && {
+        blob: encoded.blob,
+        thumbnail: encoded.thumbnail,
+        quality: computeFrameQuality(encoded.sample),
+        hash: computePerceptualHash(encoded.sample),
+        stackedFrames
+    };
+};
+
+const qualityBadgeClass = (score: number) => {
+    if (score >= 60) return 'bg-emerald-500/80 text-white';
+    if (score >= 30) return 'bg-amber-500/80 text-black';
+    return 'bg-red-500/80 text-white';
+};
+
+interface QualityBadgeProps {
+  quality: FrameQuality;
+  label: string;
+  className?: string;
+}
+
+const QualityBadge = ({ quality, label, className = '' }: QualityBadgeProps) => (
+    <span
+        className={`text-[10px] font-mono font-semibold px-1.5 py-0.5 rounded backdrop-blur-md ${qualityBadgeClass(quality.score)} ${className}`}
+        title={`${label}: ${quality.score} · sharpness ${quality.sharpness.toFixed(0)} · luma ${quality.meanLuma.toFixed(0)} · highlights ${(quality.highlightClip * 100).toFixed(1)}% · shadows ${(quality.shadowClip * 100).toFixed(1)}%`}
+    >
+        Q{quality.score}
+    </span>
+);
+
+// --- Culling ---
+
+type ColorLabel = 'red' | 'yellow' | 'green' | 'blue' | 'purple';
+
+// Keys follow Lightroom (6-9, none for purple); `xmp` is the label name written into exported stills
+const COLOR_LABELS: Record<ColorLabel, { swatch: string; key?: string; xmp: string; nameKey: string }> = {
+  red: { swatch: 'bg-red-500', key: '6', xmp: 'Red', nameKey: 'labelRed' },
+  yellow: { swatch: 'bg-yellow-400', key: '7', xmp: 'Yellow', nameKey: 'labelYellow' },
+  green: { swatch: 'bg-green-500', key: '8', xmp: 'Green', nameKey: 'labelGreen' },
+  blue: { swatch: 'bg-blue-500', key: '9', xmp: 'Blue', nameKey: 'labelBlue' },
+  purple: { swatch: 'bg-purple-500', xmp: 'Purple', nameKey: 'labelPurple' }
+};
+const COLOR_LABEL_ORDER = Object.keys(COLOR_LABELS) as ColorLabel[];
+
+type CullingFlags = Pick<PortfolioFrame, 'selected' | 'rating' | 'label' | 'rejected'>;
+
+interface RatingStarsProps {
+  rating?: number;
+  onRate?: (rating: number | undefined) => void;  // Omitted for a read-only display of the filled stars
+  title?: string;
+}
+
+const RatingStars = ({ rating = 0, onRate, title }: RatingStarsProps) => (
+    <span className="flex items-center" title={title}>
+        {[1, 2, 3, 4, 5].map(n => onRate ? (
+            <button key={n} onClick={() => onRate(n === rating ? undefined : n)} className="p-0.5 hover:scale-110 transition-transform">
+                <Star className={`w-4 h-4 ${n <= rating ? 'fill-amber-400 text-amber-400' : 'text-neutral-500'}`} />
+            </button>
+        ) : n <= rating && (
+            <Star key={n} className="w-3 h-3 fill-amber-400 text-amber-400" />
+        ))}
+    </span>
+);
+
+// --- Compare ---
+
+const COMPARE_MAX_FRAMES = 4;
+const COMPARE_MAX_ZOOM = 8;
+
+// Stable ids for blobs, so memos can key on the exact blobs they were built from
+const blobIds = new WeakMap<Blob, number>();
+let nextBlobId = 0;
+const blobId = (blob: Blob) => {
+    let id = blobIds.get(blob);
+    if (id === undefined) {
+        id = nextBlobId++;
+        blobIds.set(blob, id);
+    }
+    return id;
+};
+
+// What happens to the frames that lose a comparison
+type CompareLoser = 'deselect' | 'reject' | 'delete';
+
+interface CompareViewProps {
+  frames: PortfolioFrame[];
+  onPick: (winnerId: string, others: CompareLoser) => void;
+  onClose: () => void;
+  t: Record<string, string>;
+}
+
+const CompareView = ({ frames, onPick, onClose, t }: CompareViewProps) => {
+    // null fits each frame to its pane; otherwise image pixels per device pixel (1 = 100%), shared by every pane
+    const [zoom, setZoom] = useState<number | null>(null);
+    // Shared view centre in normalized image coordinates, so panes stay in sync across different resolutions
+    const [center, setCenter] = useState({ x: 0.5, y: 0.5 });
+    const [sizes, setSizes] = useState<Record<string, { width: number; height: number }>>({});
+    const [others, setOthers] = useState<CompareLoser>('deselect');
+    const gridRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ x: number; y: number; width: number; height: number } | null>(null);
+    const dpr = window.devicePixelRatio || 1;
+
+    // Panes compare full-resolution stills rather than the grid thumbnails. A frame's blob changes when
+    // it is spilled to disk or replaced, so the URLs follow the blobs rather than the frame ids
+    const stillsKey = frames.map(f => `${f.id}:${blobId(f.blob)}`).join('\n');
+    const stillUrls = useMemo(() => new Map(frames.map(f => [f.id, URL.createObjectURL(f.blob)])), [stillsKey]);
+    useEffect(() => () => stillUrls.forEach(url => URL.revokeObjectURL(url)), [stillUrls]);
+
+    // CSS pixels per image pixel in a pane, for the current zoom or for `level`
+    const paneScale = (pane: HTMLElement, size: { width: number; height: number }, level = zoom) => {
+        if (level !== null) return level / dpr;
+        const rect = pane.getBoundingClientRect();
+        return Math.min(rect.width / size.width, rect.height / size.height);
+    };
+
+    // Changes the zoom keeping the image point under (clientX, clientY) in place
+    const zoomAt = (level: number | null, pane: HTMLElement, frameId: string, clientX: number, clientY: number) => {
+        const size = sizes[frameId];
+        if (!size || level === null) {
+            setZoom(level);
+            if (level === null) setCenter({ x: 0.5, y: 0.5 });
+            return;
+        }
+        const rect = pane.getBoundingClientRect();
+        const dx = clientX - (rect.left + rect.width / 2);
+        const dy = clientY - (rect.top + rect.height / 2);
+        const from = zoom === null ? { x: 0.5, y: 0.5 } : center;
+        const scale = paneScale(pane, size);
+        const next = level / dpr;
+        const px = from.x * size.width + dx / scale;
+        const py = from.y * size.height + dy / scale;
+        setCenter({ x: clamp((px - dx / next) / size.width, 0, 1), y: clamp((py - dy / next) / size.height, 0, 1) });
+        setZoom(level);
+    };
+
+    // Wheel zoom needs preventDefault, which React's passive wheel listener does not allow
+    useEffect(() => {
+        const grid = gridRef.current;
+        if (!grid) return;
+        const onWheel = (e: WheelEvent) => {
+            const pane = (e.target as HTMLElement).closest<HTMLElement>('[data-frame-id]');
+            const frameId = pane?.dataset.frameId;
+            if (!pane || !frameId || !sizes[frameId]) return;
+            e.preventDefault();
+            const fit = paneScale(pane, sizes[frameId], null) * dpr;
+            const level = (zoom ?? fit) * Math.exp(-e.deltaY * 0.002);
+            zoomAt(level <= fit ? null : Math.min(level, COMPARE_MAX_ZOOM), pane, frameId, e.clientX, e.clientY);
+        };
+        grid.addEventListener('wheel', onWheel, { passive: false });
+        return () => grid.removeEventListener('wheel', onWheel);
+    });
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+            // Z toggles fit and 100%, as in Lightroom
+            if ((e.key === 'z' || e.key === 'Z') && !e.ctrlKey && !e.metaKey) {
+                setZoom(z => z === null ? 1 : null);
+                setCenter({ x: 0.5, y: 0.5 });
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const startDrag = (e: React.PointerEvent<HTMLDivElement>, frameId: string) => {
+        const size = sizes[frameId];
+        if (zoom === null || !size) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { x: e.clientX, y: e.clientY, ...size };
+    };
+    const drag = (e: React.PointerEvent<HTMLDivElement>) => {
+        const start = dragRef.current;
+        if (!start || zoom === null) return;
+        const scale = zoom / dpr;
+        const dx = e.clientX - start.x;
+        const dy = e.clientY - start.y;
+        dragRef.current = { ...start, x: e.clientX, y: e.clientY };
+        setCenter(c => ({ x: clamp(c.x - dx / (start.width * scale), 0, 1), y: clamp(c.y - dy / (start.height * scale), 0, 1) }));
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex flex-col bg-black/95 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="flex items-center justify-between gap-4 px-4 py-3 text-sm text-neutral-300">
+                <div className="flex items-center gap-2">
+                    <h2 className="text-base font-medium text-neutral-100 me-2">{t.compare}</h2>
+                    <button
+                        onClick={() => { setZoom(null); setCenter({ x: 0.5, y: 0.5 }); }}
+                        className={`px-3 py-1 rounded-md transition-colors ${zoom === null ? 'bg-white text-black' : 'bg-neutral-800 hover:bg-neutral-700'}`}
+                    >
+                        {t.zoomFit}
+                    </button>
+                    <button
+                        onClick={() => setZoom(1)}
+                        className={`px-3 py-1 rounded-md transition-colors ${zoom === 1 ? 'bg-white text-black' : 'bg-neutral-800 hover:bg-neutral-700'}`}
+                        title={`${t.zoomActual} (Z)`}
+                    >
+                        100%
+                    </button>
+                    {zoom !== null && zoom !== 1 && <span className="font-mono text-neutral-400">{Math.round(zoom * 100)}%</span>}
+                </div>
+                <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-2">
+                        <span className="text-neutral-400">{t.compareOthers}</span>
+                        <select
+                            value={others}
+                            onChange={(e) => setOthers(e.target.value as CompareLoser)}
+                            className="bg-neutral-800 text-neutral-200 rounded-md px-2 py-1 outline-none"
+                        >
+                            <option value="deselect">{t.compareDeselect}</option>
+                            <option value="reject">{t.reject}</option>
+                            <option value="delete">{t.deleteFrame}</option>
+                        </select>
+                    </label>
+                    <button onClick={onClose} className="p-1.5 text-neutral-400 hover:text-white transition-colors" title={t.close}>
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+            </div>
+
+            <div ref={gridRef} className={`flex-1 min-h-0 grid gap-1 p-1 grid-cols-2 ${frames.length > 2 ? 'grid-rows-2' : ''}`}>
+                {frames.map(frame => {
+                    const size = sizes[frame.id];
+                    const scale = zoom === null ? 0 : zoom / dpr;
+                    return (
+                        <div
+                            key={frame.id}
+                            data-frame-id={frame.id}
+                            className={`relative min-h-0 overflow-hidden bg-neutral-950 select-none touch-none ${zoom === null ? 'cursor-zoom-in' : 'cursor-grab active:cursor-grabbing'}`}
+                            onPointerDown={(e) => startDrag(e, frame.id)}
+                            onPointerMove={drag}
+                            onPointerUp={() => { dragRef.current = null; }}
+                            onDoubleClick={(e) => zoomAt(zoom === null ? 1 : null, e.currentTarget, frame.id, e.clientX, e.clientY)}
+                        >
+                            <img
+                                src={frame.previewUrl ?? stillUrls.get(frame.id) ?? frame.url}
+                                alt={t.compare}
+                                draggable={false}
+                                onLoad={(e) => {
+                                    const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+                                    setSizes(prev => ({ ...prev, [frame.id]: { width, height } }));
+                                }}
+                                className={zoom === null || !size ? 'w-full h-full object-contain' : 'absolute max-w-none'}
+                                style={zoom === null || !size ? undefined : {
+                                    left: '50%',
+                                    top: '50%',
+                                    width: size.width * scale,
+                                    height: size.height * scale,
+                                    transform: `translate(${-center.x * size.width * scale}px, ${-center.y * size.height * scale}px)`,
+                                    imageRendering: zoom >= 2 ? 'pixelated' : 'auto'
+                                }}
+                            />
+                            <div className="absolute bottom-3 left-3 right-3 flex items-center justify-between gap-2" onPointerDown={e => e.stopPropagation()} onDoubleClick={e => e.stopPropagation()}>
+                                <div className="flex items-center gap-2 text-xs font-mono text-neutral-200">
+                                    <span className="bg-black/60 px-2 py-1 rounded backdrop-blur-md">{formatClock(frame.timestamp)}</span>
+                                    {frame.quality && <QualityBadge quality={frame.quality} label={t.qualityLabel} className="px-2 py-1" />}
+                                    {frame.rating && <RatingStars rating={frame.rating} />}
+                                </div>
+                                <button
+                                    onClick={() => onPick(frame.id, others)}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white text-black text-sm font-medium hover:bg-neutral-200 transition-colors"
+                                >
+                                    <CheckCircle className="w-4 h-4" />
+                                    <span>{t.comparePick}</span>
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+const stripExtension = (name: string) => name.replace(/\.[^./]+$/, '');
+
+// Characters that are invalid or awkward in file names on common platforms
+const sanitizeFileName = (name: string) => name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '_').trim() || 'video';
+
+// One unique, filesystem-safe folder name per source video (duplicates get a numeric suffix)
+const sourceFolderNames = (sources: VideoSource[]) => {
+    const used = new Set<string>();
+    const names = new Map<string, string>();
+    sources.forEach(source => {
+        const base = sanitizeFileName(stripExtension(source.name));
+        let name = base;
+        for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}-${n}`;
+        used.add(name.toLowerCase());
+        names.set(source.id, name);
+    });
+    return names;
+};
+
+// Wall-clock time the recording started (ms): the container's creation time, else the file's
+// modification time minus its duration, since cameras usually write the file when recording stops
+const sourceRecordingStart = (source: VideoSource) =>
+    source.creationTime ?? source.file.lastModified - (source.duration ?? 0) * 1000;
+
+const frameUrls = (frame: PortfolioFrame) => frame.previewUrl ? [frame.url, frame.previewUrl] : [frame.url];
+
+// --- History ---
+
+const HISTORY_LIMIT = 100;
+
+// One frame on either side of a curation action; null where it did not exist, with its position in that list
+interface FrameChange {
+  id: string;
+  before: PortfolioFrame | null;
+  after: PortfolioFrame | null;
+  beforeIndex: number;
+  afterIndex: number;
+}
+
+// Frames are never mutated, so a frame that isn't the same object changed
+const diffFrames = (prev: PortfolioFrame[], next: PortfolioFrame[]): FrameChange[] => {
+    const prevIds = new Set(prev.map(f => f.id));
+    const nextIndex = new Map(next.map((f, i) => [f.id, i]));
+    const changes: FrameChange[] = [];
+    prev.forEach((f, i) => {
+        const j = nextIndex.get(f.id);
+        if (j === undefined) changes.push({ id: f.id, before: f, after: null, beforeIndex: i, afterIndex: -1 });
+        else if (next[j] !== f) changes.push({ id: f.id, before: f, after: next[j], beforeIndex: i, afterIndex: j });
+    });
+    next.forEach((f, j) => {
+        if (!prevIds.has(f.id)) changes.push({ id: f.id, before: null, after: f, beforeIndex: -1, afterIndex: j });
+    });
+    return changes;
+};
+
+// Applies one side of an action to the current frames; frames it never touched (e.g. extracted since) stay as they are
+const applyFrameChanges = (frames: PortfolioFrame[], changes: FrameChange[], side: 'before' | 'after') => {
+    const targets = new Map(changes.map(c => [c.id, c[side]]));
+    const result = frames.flatMap(f => {
+        if (!targets.has(f.id)) return [f];
+        const target = targets.get(f.id);
+        return target ? [target] : [];
+    });
+    // Frames that come back are re-inserted where they were
+    const present = new Set(result.map(f => f.id));
+    const position = side === 'before' ? 'beforeIndex' : 'afterIndex';
+    changes
+        .filter(c => c[side] && !present.has(c.id))
+        .sort((a, b) => a[position] - b[position])
+        .forEach(c => result.splice(Math.min(c[position], result.length), 0, c[side]!));
+    return result;
+};
+
+// --- Crop ---
+
+type CropAspect = 'free' | '1:1' | '4:5' | '3:2' | '16:9' | '9:16';
+
+// Output width / height in pixels; null leaves the crop unconstrained
+const CROP_ASPECTS: Record<CropAspect, number | null> = {
+  free: null,
+  '1:1': 1,
+  '4:5': 4 / 5,
+  '3:2': 3 / 2,
+  '16:9': 16 / 9,
+  '9:16': 9 / 16
+};
+
+const MAX_STRAIGHTEN = 45;
+const MIN_CROP_SIZE = 0.05;
+
+interface FrameCrop {
+  x: number;              // Crop rectangle, normalized (0-1) to the rotated and straightened frame
+  y: number;
+  width: number;
+  height: number;
+  quarterTurns: number;   // Clockwise 90° rotations, 0-3
+  straighten: number;     // Fine rotation in degrees, -45 to 45
+  aspect: CropAspect;
+}
+
+const FULL_CROP: FrameCrop = { x: 0, y: 0, width: 1, height: 1, quarterTurns: 0, straighten: 0, aspect: 'free' };
+
+const isIdentityCrop = (crop: FrameCrop) =>
+    crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1 && crop.quarterTurns === 0 && crop.straighten === 0;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const rotatedSize = (width: number, height: number, quarterTurns: number) =>
+    quarterTurns % 2 ? { width: height, height: width } : { width, height };
+
+// Zoom needed for a straightened frame to still cover its original bounds (no empty corners)
+const straightenScale = (width: number, height: number, degrees: number) => {
+    const a = Math.abs(degrees) * Math.PI / 180;
+    const cos = Math.cos(a);
+    const sin = Math.sin(a);
+    return Math.max((width * cos + height * sin) / width, (width * sin + height * cos) / height);
+};
+
+const croppedSize = (width: number, height: number, crop: FrameCrop) => {
+    const base = rotatedSize(width, height, crop.quarterTurns);
+    return {
+        width: Math.max(1, Math.round(base.width * crop.width)),
+        height: Math.max(1, Math.round(base.height * crop.height))
+    };
+};
+
+// Draws the cropped region at the context's origin, at croppedSize() (scale the context first to resize)
+const drawCropped = (ctx: CanvasRenderingContext2D, image: CanvasImageSource, width: number, height: number, crop: FrameCrop) => {
+    const base = rotatedSize(width, height, crop.quarterTurns);
+    ctx.save();
+    ctx.translate(-crop.x * base.width, -crop.y * base.height);
+    ctx.translate(base.width / 2, base.height / 2);
+    ctx.rotate((crop.quarterTurns * 90 + crop.straighten) * Math.PI / 180);
+    const scale = straightenScale(base.width, base.height, crop.straighten);
+    ctx.scale(scale, scale);
+    ctx.drawImage(image, -width / 2, -height / 2, width, height);
+    ctx.restore();
+};
+
+// Largest rectangle of the given pixel ratio that fits the frame, centered on the current crop
+const fitCropToAspect = (crop: FrameCrop, ratio: number, baseWidth: number, baseHeight: number): FrameCrop => {
+    const normalized = ratio * baseHeight / baseWidth;
+    const width = Math.min(1, normalized);
+    const height = width / normalized;
+    const cx = crop.x + crop.width / 2;
+    const cy = crop.y + crop.height / 2;
+    return {
+        ...crop,
+        width,
+        height,
+        x: clamp(cx - width / 2, 0, 1 - width),
+        y: clamp(cy - height / 2, 0, 1 - height)
+    };
+};
+
+type CropHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const CROP_CORNERS: { handle: CropHandle; className: string }[] = [
+  { handle: 'nw', className: 'left-0 top-0 cursor-nwse-resize' },
+  { handle: 'ne', className: 'right-0 top-0 cursor-nesw-resize' },
+  { handle: 'sw', className: 'left-0 bottom-0 cursor-nesw-resize' },
+  { handle: 'se', className: 'right-0 bottom-0 cursor-nwse-resize' }
+];
+
+// Moves the rectangle, or resizes it from a corner while the opposite corner stays put
+const dragCrop = (start: FrameCrop, handle: CropHandle, dx: number, dy: number, normalizedRatio: number | null): FrameCrop => {
+    if (handle === 'move') {
+        return { ...start, x: clamp(start.x + dx, 0, 1 - start.width), y: clamp(start.y + dy, 0, 1 - start.height) };
+    }
+    const west = handle.includes('w');
+    const north = handle.includes('n');
+    const anchorX = west ? start.x + start.width : start.x;
+    const anchorY = north ? start.y + start.height : start.y;
+    let width = clamp(west ? start.width - dx : start.width + dx, MIN_CROP_SIZE, west ? anchorX : 1 - anchorX);
+    let height = clamp(north ? start.height - dy : start.height + dy, MIN_CROP_SIZE, north ? anchorY : 1 - anchorY);
+    if (normalizedRatio) {
+        if (width / height > normalizedRatio) width = height * normalizedRatio;
+        else height = width / normalizedRatio;
+    }
+    return { ...start, width, height, x: west ? anchorX - width : anchorX, y: north ? anchorY - height : anchorY };
+};
+
+interface CropEditorProps {
+  blob: Blob;
+  crop?: FrameCrop;
+  onApply: (crop: FrameCrop | undefined) => void;
+  onCancel: () => void;
+  onLoadError: () => void;  // The still could not be decoded, e.g. a spilled copy that went missing
+  t: Record<string, string>;
+}
+
+const CROP_PREVIEW_EDGE = 1600;
+
+const CropEditor = ({ blob, crop, onApply, onCancel, onLoadError, t }: CropEditorProps) => {
+    const [draft, setDraft] = useState<FrameCrop>(crop ?? FULL_CROP);
+    const [image, setImage] = useState<ImageBitmap | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragRef = useRef<{ handle: CropHandle; startX: number; startY: number; start: FrameCrop } | null>(null);
+
+    useEffect(() => {
+        let bitmap: ImageBitmap | null = null;
+        let cancelled = false;
+        createImageBitmap(blob).then(b => {
+            if (cancelled) b.close();
+            else {
+                bitmap = b;
+                setImage(b);
+            }
+        }).catch(e => {
+            console.warn("Could not load the frame for cropping:", e);
+            if (!cancelled) onLoadError();
+        });
+        return () => {
+            cancelled = true;
+            bitmap?.close();
+        };
+    }, [blob]);
+
+    // The canvas shows the whole rotated, straightened frame; the crop rectangle is drawn over it
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !image) return;
+        const base = rotatedSize(image.width, image.height, draft.quarterTurns);
+        const scale = Math.min(1, CROP_PREVIEW_EDGE / Math.max(base.width, base.height));
+        canvas.width = Math.round(base.width * scale);
+        canvas.height = Math.round(base.height * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        ctx.scale(scale, scale);
+        drawCropped(ctx, image, image.width, image.height, { ...FULL_CROP, quarterTurns: draft.quarterTurns, straighten: draft.straighten });
+    }, [image, draft.quarterTurns, draft.straighten]);
+
+    const base = image ? rotatedSize(image.width, image.height, draft.quarterTurns) : { width: 1, height: 1 };
+    const ratio = CROP_ASPECTS[draft.aspect];
+    const normalizedRatio = ratio ? ratio * base.height / base.width : null;
+
+    const setAspect = (aspect: CropAspect) => {
+        const r = CROP_ASPECTS[aspect];
+        setDraft(d => r ? fitCropToAspect({ ...d, aspect }, r, base.width, base.height) : { ...d, aspect });
+    };
+
+    const rotate = () => {
+        if (!image) return;
+        const quarterTurns = (draft.quarterTurns + 1) % 4;
+        const turned = rotatedSize(image.width, image.height, quarterTurns);
+        const reset = { ...FULL_CROP, quarterTurns, straighten: draft.straighten, aspect: draft.aspect };
+        setDraft(ratio ? fitCropToAspect(reset, ratio, turned.width, turned.height) : reset);
+    };
+
+    const onPointerDown = (handle: CropHandle) => (e: React.PointerEvent) => {
+        e.stopPropagation();
+        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+        dragRef.current = { handle, startX: e.clientX, startY: e.clientY, start: draft };
+    };
+
+    const onPointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        const canvas = canvasRef.current;
+        if (!drag || !canvas) return;
+        const rect = canvas.getBoundingClientRect();
+        const dx = (e.clientX - drag.startX) / rect.width;
+        const dy = (e.clientY - drag.startY) / rect.height;
+        setDraft(dragCrop(drag.start, drag.handle, dx, dy, normalizedRatio));
+    };
+
+    const onPointerUp = () => {
+        dragRef.current = null;
+    };
+
+    return (
+        <div className="flex flex-col items-center gap-4 max-w-full" onClick={e => e.stopPropagation()}>
+            <div className="relative inline-flex overflow-hidden select-none touch-none" onPointerMove={onPointerMove} onPointerUp={onPointerUp}>
+                <canvas ref={canvasRef} className="max-w-full max-h-[calc(100vh-12rem)] shadow-2xl" />
+                {image && (
+                    <div
+                        className="absolute border border-white cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.6)]"
+                        style={{ left: `${draft.x * 100}%`, top: `${draft.y * 100}%`, width: `${draft.width * 100}%`, height: `${draft.height * 100}%` }}
+                        onPointerDown={onPointerDown('move')}
+                    >
+                        {/* Rule-of-thirds guides */}
+                        <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+                            {Array.from({ length: 9 }, (_, i) => <div key={i} className="border border-white/25" />)}
+                        </div>
+                        {CROP_CORNERS.map(({ handle, className }) => (
+                            <div
+                                key={handle}
+                                className={`absolute w-3 h-3 bg-white rounded-sm ${className}`}
+                                onPointerDown={onPointerDown(handle)}
+                            />
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-center gap-2 text-sm bg-black/60 backdrop-blur-md rounded-xl px-3 py-2">
+                {(Object.keys(CROP_ASPECTS) as CropAspect[]).map(aspect => (
+                    <button
+                        key={aspect}
+                        onClick={() => setAspect(aspect)}
+                        className={`px-2 py-1 rounded-md font-mono transition-colors ${draft.aspect === aspect ? 'bg-white text-black' : 'text-neutral-300 hover:bg-neutral-800'}`}
+                    >
+                        {aspect === 'free' ? t.cropFree : aspect}
+                    </button>
+                ))}
+                <button onClick={rotate} className="p-1.5 rounded-md text-neutral-300 hover:bg-neutral-800 transition-colors" title={t.rotate}>
+                    <RotateCw className="w-4 h-4" />
+                </button>
+                <label className="flex items-center gap-2 text-neutral-400" title={t.straighten}>
+                    <span className="hidden sm:inline">{t.straighten}</span>
+                    <input
+                        type="range"
+                        min={-MAX_STRAIGHTEN}
+                        max={MAX_STRAIGHTEN}
+                        step={0.5}
+                        value={draft.straighten}
+                        onChange={(e) => setDraft(d => ({ ...d, straighten: Number(e.target.value) }))}
+                        onDoubleClick={() => setDraft(d => ({ ...d, straighten: 0 }))}
+                        className="w-28 accent-blue-500"
+                    />
+                    <span className="w-10 font-mono text-neutral-300">{draft.straighten}°</span>
+                </label>
+                <button onClick={() => setDraft(FULL_CROP)} className="px-2 py-1 rounded-md text-neutral-300 hover:bg-neutral-800 transition-colors">
+                    {t.reset}
+                </button>
+                <button onClick={onCancel} className="px-2 py-1 rounded-md text-neutral-300 hover:bg-neutral-800 transition-colors">
+                    {t.cancel}
+                </button>
+                <button
+                    onClick={() => onApply(isIdentityCrop(draft) ? undefined : draft)}
+                    className="flex items-center gap-1 px-3 py-1 rounded-md bg-white text-black font-medium hover:bg-neutral-200 transition-colors"
+                >
+                    <Check className="w-4 h-4" />
+                    <span>{t.apply}</span>
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// --- Tonal & Color Adjustments ---
+
+interface FrameAdjustments {
+  exposure: number;       // Stops, -2 to 2
+  contrast: number;       // -100 to 100 (likewise below)
+  highlights: number;
+  shadows: number;
+  saturation: number;
+  temperature: number;    // Negative is cooler, positive warmer
+  tint: number;           // Negative is greener, positive more magenta
+  blackPoint: number;     // Input levels, 0-255
+  whitePoint: number;
+}
+
+type AdjustmentKey = Exclude<keyof FrameAdjustments, 'blackPoint' | 'whitePoint'>;
+
+const NEUTRAL_ADJUSTMENTS: FrameAdjustments = {
+  exposure: 0,
+  contrast: 0,
+  highlights: 0,
+  shadows: 0,
+  saturation: 0,
+  temperature: 0,
+  tint: 0,
+  blackPoint: 0,
+  whitePoint: 255
+};
+
+const ADJUSTMENT_SLIDERS: { key: AdjustmentKey; min: number; max: number; step: number }[] = [
+  { key: 'exposure', min: -2, max: 2, step: 0.05 },
+  { key: 'contrast', min: -100, max: 100, step: 1 },
+  { key: 'highlights', min: -100, max: 100, step: 1 },
+  { key: 'shadows', min: -100, max: 100, step: 1 },
+  { key: 'saturation', min: -100, max: 100, step: 1 },
+  { key: 'temperature', min: -100, max: 100, step: 1 },
+  { key: 'tint', min: -100, max: 100, step: 1 }
+];
+
+// Fraction of pixels ignored at each end of the histogram so stray specks don't pin the levels
+const AUTO_LEVELS_CLIP = 0.005;
+
+type FrameEdits = Pick<PortfolioFrame, 'crop' | 'adjustments'>;
+
+const isNeutralAdjustments = (adj: FrameAdjustments) =>
+    (Object.keys(NEUTRAL_ADJUSTMENTS) as (keyof FrameAdjustments)[]).every(key => adj[key] === NEUTRAL_ADJUSTMENTS[key]);
+
+const srgbToLinear = (v: number) => v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+const linearToSrgb = (v: number) => v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+
+// Per-channel lookup tables covering white balance, levels and the tone curve
+const buildAdjustmentLuts = (adj: FrameAdjustments) => {
+    const gains = [1 + adj.temperature * 0.0015, 1 - adj.tint * 0.001, 1 - adj.temperature * 0.0015];
+    const exposure = Math.pow(2, adj.exposure);
+    const contrast = 1 + adj.contrast / 100;
+    const range = Math.max(1, adj.whitePoint - adj.blackPoint);
+    return gains.map(gain => {
+        const lut = new Uint8ClampedArray(256);
+        for (let i = 0; i < 256; i++) {
+            let v = clamp((i * gain - adj.blackPoint) / range, 0, 1);
+            v = clamp(linearToSrgb(srgbToLinear(v) * exposure), 0, 1);
+            // Highlights and shadows bend the curve near each end while leaving black and white fixed
+            v += (adj.shadows / 100) * 1.5 * v * (1 - v) * (1 - v);
+            v += (adj.highlights / 100) * 1.5 * v * v * (1 - v);
+            v = (v - 0.5) * contrast + 0.5;
+            lut[i] = Math.round(v * 255);
+        }
+        return lut;
+    });
+};
+
+const applyAdjustments = (image: ImageData, adj: FrameAdjustments) => {
+    const [lutR, lutG, lutB] = buildAdjustmentLuts(adj);
+    const saturation = 1 + adj.saturation / 100;
+    const data = image.data;
+    for (let i = 0; i < data.length; i += 4) {
+        const r = lutR[data[i]];
+        const g = lutG[data[i + 1]];
+        const b = lutB[data[i + 2]];
+        const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+        data[i] = luma + (r - luma) * saturation;
+        data[i + 1] = luma + (g - luma) * saturation;
+        data[i + 2] = luma + (b - luma) * saturation;
+    }
+};
+
+// Input levels stretched to the luma histogram, keeping the rest of the adjustments
+const autoLevels = (image: ImageData, adj: FrameAdjustments): FrameAdjustments => {
+    const histogram = new Uint32Array(256);
+    const data = image.data;
+    for (let i = 0; i < data.length; i += 4) {
+        histogram[Math.round(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2])]++;
+    }
+    const clipCount = (data.length / 4) * AUTO_LEVELS_CLIP;
+    let blackPoint = 0;
+    for (let sum = 0; blackPoint < 254 && sum + histogram[blackPoint] <= clipCount; blackPoint++) sum += histogram[blackPoint];
+    let whitePoint = 255;
+    for (let sum = 0; whitePoint > blackPoint + 1 && sum + histogram[whitePoint] <= clipCount; whitePoint--) sum += histogram[whitePoint];
+    return { ...adj, blackPoint, whitePoint };
+};
+
+// Draws a frame with its edits applied at the context's origin, scaled to outWidth x outHeight
+const drawEdited = (ctx: CanvasRenderingContext2D, image: CanvasImageSource, width: number, height: number, edits: FrameEdits, outWidth: number, outHeight: number) => {
+    const crop = edits.crop ?? FULL_CROP;
+    const cropped = croppedSize(width, height, crop);
+    ctx.save();
+    ctx.scale(outWidth / cropped.width, outHeight / cropped.height);
+    drawCropped(ctx, image, width, height, crop);
+    ctx.restore();
+    if (edits.adjustments && !isNeutralAdjustments(edits.adjustments)) {
+        const pixels = ctx.getImageData(0, 0, outWidth, outHeight);
+        applyAdjustments(pixels, edits.adjustments);
+        ctx.putImageData(pixels, 0, 0);
+    }
+};
+
+// Preview shown in the grid and lightbox; export re-renders from the source at full quality
+const renderEditedBlob = async (blob: Blob, edits: FrameEdits): Promise<Blob | null> => {
+    const bitmap = await createImageBitmap(blob);
+    const size = croppedSize(bitmap.width, bitmap.height, edits.crop ?? FULL_CROP);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (ctx) drawEdited(ctx, bitmap, bitmap.width, bitmap.height, edits, size.width, size.height);
+    bitmap.close();
+    if (!ctx) return null;
+    return new Promise(resolve => canvas.toBlob(resolve, FRAME_MIME_TYPE, FRAME_QUALITY));
+};
+
+interface AdjustEditorProps {
+  blob: Blob;
+  crop?: FrameCrop;
+  adjustments?: FrameAdjustments;
+  selectedCount: number;
+  onApply: (adjustments: FrameAdjustments | undefined) => void;
+  onCopyToSelected: (adjustments: FrameAdjustments | undefined) => void;
+  onCancel: () => void;
+  onLoadError: () => void;  // The still could not be decoded, e.g. a spilled copy that went missing
+  t: Record<string, string>;
+}
+
+const AdjustEditor = ({ blob, crop, adjustments, selectedCount, onApply, onCopyToSelected, onCancel, onLoadError, t }: AdjustEditorProps) => {
+    const [draft, setDraft] = useState<FrameAdjustments>(adjustments ?? NEUTRAL_ADJUSTMENTS);
+    const [base, setBase] = useState<ImageData | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    // Cropped, downscaled pixels the sliders are previewed on
+    useEffect(() => {
+        let cancelled = false;
+        createImageBitmap(blob).then(bitmap => {
+            const cropped = croppedSize(bitmap.width, bitmap.height, crop ?? FULL_CROP);
+            const size = fitLongEdge(cropped.width, cropped.height, CROP_PREVIEW_EDGE);
+            const canvas = document.createElement('canvas');
+            canvas.width = size.width;
+            canvas.height = size.height;
+            const ctx = canvas.getContext('2d', { willReadFrequently: true });
+            if (ctx && !cancelled) {
+                drawEdited(ctx, bitmap, bitmap.width, bitmap.height, { crop }, size.width, size.height);
+                setBase(ctx.getImageData(0, 0, size.width, size.height));
+            }
+            bitmap.close();
+        }).catch(e => {
+            console.warn("Could not load the frame for adjusting:", e);
+            if (!cancelled) onLoadError();
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [blob, crop]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !base) return;
+        const frame = requestAnimationFrame(() => {
+            canvas.width = base.width;
+            canvas.height = base.height;
+            const pixels = new ImageData(new Uint8ClampedArray(base.data), base.width, base.height);
+            applyAdjustments(pixels, draft);
+            canvas.getContext('2d')?.putImageData(pixels, 0, 0);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [base, draft]);
+
+    const result = isNeutralAdjustments(draft) ? undefined : draft;
+    const labels: Record<AdjustmentKey, string> = {
+        exposure: t.exposure,
+        contrast: t.contrast,
+        highlights: t.highlights,
+        shadows: t.shadows,
+        saturation: t.saturation,
+        temperature: t.temperature,
+        tint: t.tint
+    };
+
+    return (
+        <div className="flex flex-col lg:flex-row items-center lg:items-start gap-4 max-w-full" onClick={e => e.stopPropagation()}>
+            <canvas ref={canvasRef} className="max-w-full max-h-[calc(100vh-8rem)] shadow-2xl" />
+
+            <div className="w-72 shrink-0 space-y-3 text-sm bg-black/60 backdrop-blur-md rounded-xl p-4">
+                {ADJUSTMENT_SLIDERS.map(({ key, min, max, step }) => (
+                    <label key={key} className="block space-y-1">
+                        <span className="flex justify-between text-neutral-400">
+                            <span>{labels[key]}</span>
+                            <span className="font-mono text-neutral-300">{draft[key] > 0 ? '+' : ''}{draft[key]}</span>
+                        </span>
+                        <input
+                            type="range"
+                            min={min}
+                            max={max}
+                            step={step}
+                            value={draft[key]}
+                            onChange={(e) => setDraft(d => ({ ...d, [key]: Number(e.target.value) }))}
+                            onDoubleClick={() => setDraft(d => ({ ...d, [key]: NEUTRAL_ADJUSTMENTS[key] }))}
+                            className="w-full accent-blue-500"
+                        />
+                    </label>
+                ))}
+
+                <div className="grid grid-cols-2 gap-2 pt-1">
+                    <button
+                        onClick={() => base && setDraft(d => autoLevels(base, d))}
+                        className="px-2 py-1.5 rounded-md text-neutral-300 bg-neutral-800 hover:bg-neutral-700 transition-colors"
+                    >
+                        {t.autoLevels}
+                    </button>
+                    <button
+                        onClick={() => setDraft(NEUTRAL_ADJUSTMENTS)}
+                        className="px-2 py-1.5 rounded-md text-neutral-300 bg-neutral-800 hover:bg-neutral-700 transition-colors"
+                    >
+                        {t.reset}
+                    </button>
+                </div>
+                <button
+                    onClick={() => onCopyToSelected(result)}
+                    disabled={selectedCount === 0}
+                    className="w-full px-2 py-1.5 rounded-md text-neutral-300 bg-neutral-800 hover:bg-neutral-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    {t.copyToSelected} ({selectedCount})
+                </button>
+                <div className="grid grid-cols-2 gap-2">
+                    <button onClick={onCancel} className="px-2 py-1.5 rounded-md text-neutral-300 hover:bg-neutral-800 transition-colors">
+                        {t.cancel}
+                    </button>
+                    <button
+                        onClick={() => onApply(result)}
+                        className="flex items-center justify-center gap-1 px-2 py-1.5 rounded-md bg-white text-black font-medium hover:bg-neutral-200 transition-colors"
+                    >
+                        <Check className="w-4 h-4" />
+                        <span>{t.apply}</span>
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Export ---
+
+type ExportFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+const EXPORT_FORMATS: Record<ExportFormat, { mime: string; extension: string; lossy: boolean; label: string }> = {
+  jpeg: { mime: 'image/jpeg', extension: 'jpg', lossy: true, label: 'JPEG' },
+  png: { mime: 'image/png', extension: 'png', lossy: false, label: 'PNG' },
+  webp: { mime: 'image/webp', extension: 'webp', lossy: true, label: 'WebP' },
+  avif: { mime: 'image/avif', extension: 'avif', lossy: true, label: 'AVIF' }
+};
+
+// Long-edge presets in pixels; 0 keeps the source resolution
+const RESIZE_PRESETS = [0, 4096, 2048, 1080] as const;
+type ResizePreset = typeof RESIZE_PRESETS[number];
+
+interface ExportSettings {
+  scope: 'selected' | 'rated';
+  minRating: number;      // With the 'rated' scope: every frame with at least this many stars that isn't rejected
+  format: ExportFormat;
+  quality: number;        // 1-100, ignored for lossless formats
+  longEdge: ResizePreset;
+  fileNameTemplate: string;
+  embedMetadata: boolean; // EXIF/XMP in each still (not available for AVIF)
+  artist: string;
+  copyright: string;
+}
+
+const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  scope: 'selected',
+  minRating: 3,
+  format: 'jpeg',
+  quality: 92,
+  longEdge: 0,
+  fileNameTemplate: 'portfolio_shot_{index}',
+  embedMetadata: true,
+  artist: '',
+  copyright: ''
+};
+
+const FILE_NAME_TOKENS = ['{source}', '{timestamp}', '{index}', '{date}'];
+
+// Browsers silently fall back to PNG for types they cannot encode, so check what actually comes out
+const detectEncodableFormats = async (): Promise<ExportFormat[]> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 2;
+    canvas.height = 2;
+    const formats = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+    const results = await Promise.all(formats.map(format =>
+        new Promise<boolean>(resolve => canvas.toBlob(blob => resolve(blob?.type === EXPORT_FORMATS[format].mime), EXPORT_FORMATS[format].mime))
+    ));
+    return formats.filter((_, i) => results[i]);
+};
+
+// 83.456 -> "00-01-23-456" (file-name safe)
+const formatTimestampToken = (seconds: number) => {
+    const ms = Math.round(seconds * 1000);
+    const h = Math.floor(ms / 3600000);
+    const m = Math.floor((ms % 3600000) / 60000);
+    const s = Math.floor((ms % 60000) / 1000);
+    return `${dec2(h)}-${dec2(m)}-${dec2(s)}-${(ms % 1000).toString().padStart(3, '0')}`;
+};
+
+const renderFileName = (template: string, tokens: Record<string, string>) =>
+    sanitizeFileName(template.replace(/\{(\w+)\}/g, (match, key: string) => tokens[key] ?? match));
+
+// Scales down (never up) so the longer side fits the preset
+const fitLongEdge = (width: number, height: number, longEdge: number) => {
+    const scale = longEdge ? Math.min(1, longEdge / Math.max(width, height)) : 1;
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+interface ExportedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+const encodeForExport = (image: CanvasImageSource, width: number, height: number, settings: ExportSettings, edits: FrameEdits = {}): Promise<ExportedImage | null> => {
+    const cropped = croppedSize(width, height, edits.crop ?? FULL_CROP);
+    const size = fitLongEdge(cropped.width, cropped.height, settings.longEdge);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return Promise.resolve(null);
+    ctx.imageSmoothingQuality = 'high';
+    drawEdited(ctx, image, width, height, edits, size.width, size.height);
+    const { mime, lossy } = EXPORT_FORMATS[settings.format];
+    return new Promise(resolve => canvas.toBlob(
+        blob => resolve(blob && { blob, ...size }),
+        mime,
+        lossy ? settings.quality / 100 : undefined
+    ));
+};
+
+// --- Still Metadata (EXIF / XMP) ---
+
+interface StillMetadata {
+  sourceName: string;
+  timestamp: number;      // Seconds into the source video
+  videoWidth: number;
+  videoHeight: number;
+  captureDate: Date;
+  artist: string;
+  copyright: string;
+  rating?: number;        // -1 marks a rejected still, as in xmp:Rating
+  label?: string;
+}
+
+const METADATA_SOFTWARE = 'Folio';
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/';
+const FOLIO_XMP_NAMESPACE = 'https://folio.bringezback.com/ns/1.0/';
+
+const textEncoder = new TextEncoder();
+
+const concatBytes = (parts: Uint8Array[]) => {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let pos = 0;
+    for (const p of parts) {
+        out.set(p, pos);
+        pos += p.length;
+    }
+    return out;
+};
+
+// EXIF dates are local wall-clock time: "2024:05:01 14:03:59"
+const formatExifDate = (date: Date) =>
+    `${date.getFullYear()}:${dec2(date.getMonth() + 1)}:${dec2(date.getDate())} ${dec2(date.getHours())}:${dec2(date.getMinutes())}:${dec2(date.getSeconds())}`;
+
+const describeStill = (meta: StillMetadata) =>
+    `${meta.sourceName} @ ${meta.timestamp.toFixed(3)}s (${meta.videoWidth}x${meta.videoHeight})`;
+
+interface ExifEntry {
+  tag: number;
+  type: 2 | 4 | 7;        // ASCII, LONG, UNDEFINED
+  value: Uint8Array | number;
+}
+
+const exifAscii = (tag: number, text: string): ExifEntry => ({ tag, type: 2, value: textEncoder.encode(`${text}\0`) });
+
+// Little-endian TIFF structure holding IFD0 and, when given, an Exif sub-IFD
+const buildExifTiff = (ifd0: ExifEntry[], exifIfd: ExifEntry[]) => {
+    const EXIF_IFD_POINTER = 0x8769;
+    const ifds = exifIfd.length ? [[...ifd0, { tag: EXIF_IFD_POINTER, type: 4, value: 0 } as ExifEntry], exifIfd] : [ifd0];
+    const dataSize = (entries: ExifEntry[]) =>
+        entries.reduce((n, e) => n + (e.value instanceof Uint8Array && e.value.length > 4 ? e.value.length + (e.value.length & 1) : 0), 0);
+    const ifdSize = (entries: ExifEntry[]) => 2 + entries.length * 12 + 4 + dataSize(entries);
+
+    const offsets = [8];
+    offsets.push(8 + ifdSize(ifds[0]));
+    const bytes = new Uint8Array(offsets[0] + ifds.reduce((n, e) => n + ifdSize(e), 0));
+    const view = new DataView(bytes.buffer);
+    bytes.set([0x49, 0x49, 0x2a, 0x00]);
+    view.setUint32(4, 8, true);
+
+    ifds.forEach((entries, i) => {
+        const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+        const start = offsets[i];
+        let data = start + 2 + sorted.length * 12 + 4;
+        view.setUint16(start, sorted.length, true);
+        sorted.forEach((entry, k) => {
+            const at = start + 2 + k * 12;
+            view.setUint16(at, entry.tag, true);
+            view.setUint16(at + 2, entry.type, true);
+            if (entry.value instanceof Uint8Array) {
+                view.setUint32(at + 4, entry.value.length, true);
+                if (entry.value.length <= 4) {
+                    bytes.set(entry.value, at + 8);
+                } else {
+                    view.setUint32(at + 8, data, true);
+                    bytes.set(entry.value, data);
+                    data += entry.value.length + (entry.value.length & 1);
+                }
+            } else {
+                view.setUint32(at + 4, 1, true);
+                view.setUint32(at + 8, entry.tag === EXIF_IFD_POINTER ? offsets[1] : entry.value, true);
+            }
+        });
+        view.setUint32(start + 2 + sorted.length * 12, 0, true);
+    });
+    return bytes;
+};
+
+const buildStillExif = (meta: StillMetadata) => {
+    const date = formatExifDate(meta.captureDate);
+    const ifd0 = [
+        exifAscii(0x010e, describeStill(meta)),  // ImageDescription
+        exifAscii(0x0131, METADATA_SOFTWARE),    // Software
+        exifAscii(0x0132, date)                  // DateTime
+    ];
+    if (meta.artist) ifd0.push(exifAscii(0x013b, meta.artist));       // Artist
+    if (meta.copyright) ifd0.push(exifAscii(0x8298, meta.copyright)); // Copyright
+    const comment = concatBytes([textEncoder.encode('ASCII\0\0\0'), textEncoder.encode(describeStill(meta))]);
+    return buildExifTiff(ifd0, [
+        exifAscii(0x9003, date),                                                          // DateTimeOriginal
+        { tag: 0x9286, type: 7, value: comment },                                         // UserComment
+        exifAscii(0x9291, meta.captureDate.getMilliseconds().toString().padStart(3, '0')) // SubSecTimeOriginal
+    ]);
+};
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildStillXmp = (meta: StillMetadata) => {
+    const date = meta.captureDate.toISOString();
+    const creator = meta.artist ? `<dc:creator><rdf:Seq><rdf:li>${escapeXml(meta.artist)}</rdf:li></rdf:Seq></dc:creator>` : '';
+    const rights = meta.copyright ? `<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(meta.copyright)}</rdf:li></rdf:Alt></dc:rights>` : '';
+    const culling = (meta.rating !== undefined ? ` xmp:Rating="${meta.rating}"` : '') + (meta.label ? ` xmp:Label="${escapeXml(meta.label)}"` : '');
+    return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>` +
+        `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">` +
+        `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="${XMP_NAMESPACE}"` +
+        ` xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/" xmlns:folio="${FOLIO_XMP_NAMESPACE}"` +
+        ` dc:source="${escapeXml(meta.sourceName)}" xmp:CreateDate="${date}" xmp:CreatorTool="${METADATA_SOFTWARE}"` +
+        ` photoshop:DateCreated="${date}" folio:sourceTimestamp="${meta.timestamp.toFixed(3)}"` +
+        ` folio:videoWidth="${meta.videoWidth}" folio:videoHeight="${meta.videoHeight}"${culling}>` +
+        `${creator}${rights}</rdf:Description></rdf:RDF></x:xmpmeta><?xpacket end="w"?>`;
+};
+
+// JPEG: APP1 "Exif" and APP1 XMP segments right after SOI (and JFIF APP0, when present)
+const embedJpegMetadata = (bytes: Uint8Array, exif: Uint8Array, xmp: string) => {
+    if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+    const segment = (payload: Uint8Array) => {
+        const head = new Uint8Array([0xff, 0xe1, 0, 0]);
+        new DataView(head.buffer).setUint16(2, payload.length + 2);
+        return concatBytes([head, payload]);
+    };
+    const exifSegment = segment(concatBytes([textEncoder.encode('Exif\0\0'), exif]));
+    const xmpSegment = segment(textEncoder.encode(`${XMP_NAMESPACE}\0${xmp}`));
+    let insertAt = 2;
+    if (bytes[2] === 0xff && bytes[3] === 0xe0) insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+    return concatBytes([bytes.subarray(0, insertAt), exifSegment, xmpSegment, bytes.subarray(insertAt)]);
+};
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+    let c = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) c = CRC32_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    return (c ^ 0xffffffff) >>> 0;
+};
+
+// PNG: eXIf and iTXt (XMP) chunks right after IHDR
+const embedPngMetadata = (bytes: Uint8Array, exif: Uint8Array, xmp: string) => {
+    const PNG_SIGNATURE_LENGTH = 8;
+    if (bytes[1] !== 0x50 || bytes[2] !== 0x4e || bytes[3] !== 0x47) return null;
+    const chunk = (type: string, data: Uint8Array) => {
+        const body = concatBytes([textEncoder.encode(type), data]);
+        const out = new Uint8Array(body.length + 8);
+        const view = new DataView(out.buffer);
+        view.setUint32(0, data.length);
+        out.set(body, 4);
+        view.setUint32(out.length - 4, crc32(body));
+        return out;
+    };
+    // keyword, null, compression flag + method, empty language tag and translated keyword
+    const itxt = textEncoder.encode(`XML:com.adobe.xmp\0\0\0\0\0${xmp}`);
+    const ihdrLength = new DataView(bytes.buffer, bytes.byteOffset).getUint32(PNG_SIGNATURE_LENGTH);
+    const insertAt = PNG_SIGNATURE_LENGTH + 12 + ihdrLength;
+    return concatBytes([bytes.subarray(0, insertAt), chunk('eXIf', exif), chunk('iTXt', itxt), bytes.subarray(insertAt)]);
+};
+
+// WebP: upgrade to the extended (VP8X) layout if needed, then append EXIF and XMP chunks
+// RIFF chunks are padded to an even length
+const riffChunk = (type: string, data: Uint8Array) => {
+    const out = new Uint8Array(8 + data.length + (data.length & 1));
+    out.set(textEncoder.encode(type));
+    new DataView(out.buffer).setUint32(4, data.length, true);
+    out.set(data, 8);
+    return out;
+};
+
+const VP8X_FLAG_ALPHA = 0x10;
+
+// VP8X stores the canvas size minus one as two 24-bit little-endian values
+const writeVp8xSize = (vp8x: Uint8Array, width: number, height: number) => {
+    const w = width - 1;
+    const h = height - 1;
+    vp8x.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff, h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 4);
+};
+
+const embedWebpMetadata = (bytes: Uint8Array, exif: Uint8Array, xmp: string, width: number, height: number) => {
+    if (fourCC(bytes, 0) !== 'RIFF' || fourCC(bytes, 8) !== 'WEBP') return null;
+    const VP8X_FLAG_EXIF = 0x08;
+    const VP8X_FLAG_XMP = 0x04;
+
+    let body = bytes.subarray(12);
+    if (fourCC(body, 0) === 'VP8X') {
+        body = body.slice();
+        body[8] |= VP8X_FLAG_EXIF | VP8X_FLAG_XMP;
+    } else {
+        // Lossless bitstreams carry an alpha_is_used bit right after the 14-bit dimensions
+        const alpha = fourCC(body, 0) === 'VP8L' && ((body[12] >> 4) & 1) === 1;
+        const vp8x = new Uint8Array(10);
+        vp8x[0] = VP8X_FLAG_EXIF | VP8X_FLAG_XMP | (alpha ? VP8X_FLAG_ALPHA : 0);
+        writeVp8xSize(vp8x, width, height);
+        body = concatBytes([riffChunk('VP8X', vp8x), body]);
+    }
+    const out = concatBytes([textEncoder.encode('RIFF'), new Uint8Array(4), textEncoder.encode('WEBP'), body, riffChunk('EXIF', exif), riffChunk('XMP ', textEncoder.encode(xmp))]);
+    new DataView(out.buffer).setUint32(4, out.length - 8, true);
+    return out;
+};
+
+// Returns the original blob for formats without a writer (AVIF) or if the file is not as expected
+const embedStillMetadata = async (blob: Blob, format: ExportFormat, width: number, height: number, meta: StillMetadata): Promise<Blob> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const exif = buildStillExif(meta);
+    const xmp = buildStillXmp(meta);
+    const out = format === 'jpeg' ? embedJpegMetadata(bytes, exif, xmp)
+        : format === 'png' ? embedPngMetadata(bytes, exif, xmp)
+        : format === 'webp' ? embedWebpMetadata(bytes, exif, xmp, width, height)
+        : null;
+    return out ? new Blob([out], { type: blob.type }) : blob;
+};
+
+interface ExportDialogProps {
+  settings: ExportSettings;
+  supportedFormats: ExportFormat[];
+  selectedCount: number;
+  ratedCount: number;     // Frames matching the settings' minRating
+  clipCount: number;
+  onChange: (settings: ExportSettings) => void;
+  onConfirm: () => void;
+  onClose: () => void;
+  t: Record<string, string>;
+}
+
+const ExportDialog = ({ settings, supportedFormats, selectedCount, ratedCount, clipCount, onChange, onConfirm, onClose, t }: ExportDialogProps) => {
+    const preview = renderFileName(settings.fileNameTemplate, {
+        source: 'clip',
+        timestamp: formatTimestampToken(83.456),
+        index: '01',
+        date: new Date().toISOString().slice(0, 10)
+    });
+    const frameCount = settings.scope === 'rated' ? ratedCount : selectedCount;
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+            <div className="w-full max-w-md bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-5 text-sm" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-medium text-neutral-100">{t.exportTitle}</h2>
+                    <button onClick={onClose} className="p-1 text-neutral-400 hover:text-white transition-colors" title={t.close}>
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="space-y-2">
+                    <label className="text-neutral-400">{t.sheetFrames}</label>
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={() => onChange({ ...settings, scope: 'selected' })}
+                            className={`py-1.5 rounded-md font-medium transition-colors ${settings.scope === 'selected' ? 'bg-white text-black' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'}`}
+                        >
+                            {t.statusSelected} ({selectedCount})
+                        </button>
+                        <button
+                            onClick={() => onChange({ ...settings, scope: 'rated' })}
+                            className={`py-1.5 rounded-md font-medium transition-colors ${settings.scope === 'rated' ? 'bg-white text-black' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'}`}
+                        >
+                            {t.exportRated} ({ratedCount})
+                        </button>
+                    </div>
+                    {settings.scope === 'rated' && (
+                        <div className="flex items-center justify-between text-neutral-400">
+                            <span>{t.minRating}</span>
+                            <RatingStars rating={settings.minRating} onRate={(minRating) => onChange({ ...settings, minRating: minRating ?? settings.minRating })} />
+                        </div>
+                    )}
+                </div>
+
+                <div className="space-y-2">
+                    <label className="text-neutral-400">{t.exportFormat}</label>
+                    <div className="grid grid-cols-4 gap-2">
+                        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => {
+                            const supported = supportedFormats.includes(format);
+                            return (
+                                <button
+                                    key={format}
+                                    disabled={!supported}
+                                    onClick={() => onChange({ ...settings, format })}
+                                    title={supported ? undefined : t.formatUnsupported}
+                                    className={`py-1.5 rounded-md font-medium transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${settings.format === format ? 'bg-white text-black' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'}`}
+                                >
+                                    {EXPORT_FORMATS[format].label}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                {EXPORT_FORMATS[settings.format].lossy && (
+                    <div className="space-y-2">
+                        <label className="text-neutral-400 flex justify-between">
+                            <span>{t.exportQuality}</span>
+                            <span className="font-mono text-neutral-300">{settings.quality}</span>
+                        </label>
+                        <input
+                            type="range"
+                            min={1}
+                            max={100}
+                            value={settings.quality}
+                            onChange={(e) => onChange({ ...settings, quality: Number(e.target.value) })}
+                            className="w-full accent-blue-500"
+                        />
+                    </div>
+                )}
+
+                <div className="space-y-2">
+                    <label className="text-neutral-400">{t.exportSize}</label>
+                    <select
+                        value={settings.longEdge}
+                        onChange={(e) => onChange({ ...settings, longEdge: Number(e.target.value) as ResizePreset })}
+                        className="w-full bg-neutral-800 text-neutral-200 rounded-md p-2 outline-none"
+                    >
+                        {RESIZE_PRESETS.map(preset => (
+                            <option key={preset} value={preset}>
+                                {preset ? `${t.longEdge} ${preset}px` : t.sizeOriginal}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="space-y-2">
+                    <label className="text-neutral-400">{t.fileNameTemplate}</label>
+                    <input
+                        type="text"
+                        value={settings.fileNameTemplate}
+                        onChange={(e) => onChange({ ...settings, fileNameTemplate: e.target.value })}
+                        className="w-full bg-neutral-800 text-neutral-200 rounded-md p-2 font-mono outline-none"
+                        spellCheck={false}
+                    />
+                    <div className="flex flex-wrap gap-1.5">
+                        {FILE_NAME_TOKENS.map(token => (
+                            <button
+                                key={token}
+                                onClick={() => onChange({ ...settings, fileNameTemplate: settings.fileNameTemplate + token })}
+                                className="px-1.5 py-0.5 rounded bg-neutral-800 text-neutral-400 hover:text-white font-mono text-xs transition-colors"
+                            >
+                                {token}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-neutral-500 text-xs font-mono truncate">{preview}.{EXPORT_FORMATS[settings.format].extension}</p>
+                </div>
+
+                <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-neutral-400 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={settings.embedMetadata}
+                            onChange={(e) => onChange({ ...settings, embedMetadata: e.target.checked })}
+                            className="accent-blue-500"
+                        />
+                        <span>{t.embedMetadata}</span>
+                    </label>
+                    {settings.embedMetadata && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <input
+                                type="text"
+                                value={settings.artist}
+                                placeholder={t.artist}
+                                onChange={(e) => onChange({ ...settings, artist: e.target.value })}
+                                className="w-full bg-neutral-800 text-neutral-200 rounded-md p-2 outline-none placeholder:text-neutral-500"
+                            />
+                            <input
+                                type="text"
+                                value={settings.copyright}
+                                placeholder={t.copyright}
+                                onChange={(e) => onChange({ ...settings, copyright: e.target.value })}
+                                className="w-full bg-neutral-800 text-neutral-200 rounded-md p-2 outline-none placeholder:text-neutral-500"
+                            />
+                        </div>
+                    )}
+                    {settings.embedMetadata && settings.format === 'avif' && (
+                        <p className="text-neutral-500 text-xs">{t.metadataManifestOnly}</p>
+                    )}
+                </div>
+
+                {clipCount > 0 && (
+                    <p className="flex items-center gap-2 text-neutral-400">
+                        <Clapperboard className="w-4 h-4" />
+                        <span>{t.clipsIncluded}: {clipCount}</span>
+                    </p>
+                )}
+
+                <button
+                    onClick={onConfirm}
+                    disabled={frameCount === 0}
+                    className="w-full flex items-center justify-center gap-2 py-2.5 rounded-lg bg-white text-black font-medium hover:bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                    <Download className="w-4 h-4" />
+                    <span>{t.exportConfirm} ({frameCount})</span>
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// --- Contact Sheet ---
+
+type ContactSheetFormat = 'pdf' | 'png' | 'jpeg';
+type ContactSheetPaper = 'a4' | 'letter';
+
+interface ContactSheetSettings {
+  format: ContactSheetFormat;
+  columns: number;
+  scope: 'selected' | 'all';
+  paper: ContactSheetPaper;
+}
+
+const DEFAULT_CONTACT_SHEET_SETTINGS: ContactSheetSettings = { format: 'pdf', columns: 4, scope: 'selected', paper: 'a4' };
+
+// Portrait page sizes in PDF points; pages are rendered at CONTACT_SHEET_DPI
+const PAPER_SIZES: Record<ContactSheetPaper, { width: number; height: number; label: string }> = {
+  a4: { width: 595.28, height: 841.89, label: 'A4' },
+  letter: { width: 612, height: 792, label: 'Letter' }
+};
+const CONTACT_SHEET_DPI = 150;
+const CONTACT_SHEET_IMAGE_WIDTH = 2400;  // Single-image sheets
+const MAX_CANVAS_EDGE = 16384;           // Common browser limit for one canvas dimension
+const CONTACT_SHEET_COLUMNS = [2, 3, 4, 5, 6, 8];
+const CONTACT_SHEET_THUMB_WIDTH = 800;
+
+interface ContactSheetItem {
+  image: ImageBitmap;
+  caption: string;
+}
+
+interface ContactSheetLayout {
+  width: number;
+  margin: number;
+  gap: number;
+  header: number;
+  cellWidth: number;
+  imageHeight: number;
+  captionHeight: number;
+  fontSize: number;
+}
+
+// Cells share one image box sized for the widest frame; each still is fitted inside it
+const contactSheetLayout = (width: number, columns: number, aspect: number): ContactSheetLayout => {
+    const margin = Math.round(width * 0.04);
+    const gap = Math.round(width * 0.015);
+    const fontSize = Math.max(10, Math.round(width / 100));
+    const cellWidth = (width - margin * 2 - gap * (columns - 1)) / columns;
+    return {
+        width,
+        margin,
+        gap,
+        header: fontSize * 3,
+        cellWidth,
+        imageHeight: cellWidth / aspect,
+        captionHeight: fontSize * 2,
+        fontSize
+    };
+};
+
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    let end = text.length;
+    while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+    return `${text.slice(0, end)}…`;
+};
+
+const drawContactSheet = (ctx: CanvasRenderingContext2D, layout: ContactSheetLayout, height: number, items: ContactSheetItem[], columns: number, title: string) => {
+    const { width, margin, gap, header, cellWidth, imageHeight, captionHeight, fontSize } = layout;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = '#171717';
+    ctx.font = `600 ${Math.round(fontSize * 1.4)}px system-ui, sans-serif`;
+    ctx.fillText(fitText(ctx, title, width - margin * 2), margin, margin);
+
+    ctx.font = `${fontSize}px ui-monospace, monospace`;
+    items.forEach(({ image, caption }, i) => {
+        const x = margin + (i % columns) * (cellWidth + gap);
+        const y = margin + header + Math.floor(i / columns) * (imageHeight + captionHeight + gap);
+        ctx.fillStyle = '#f5f5f5';
+        ctx.fillRect(x, y, cellWidth, imageHeight);
+        const scale = Math.min(cellWidth / image.width, imageHeight / image.height);
+        const w = image.width * scale;
+        const h = image.height * scale;
+        ctx.drawImage(image, x + (cellWidth - w) / 2, y + (imageHeight - h) / 2, w, h);
+        ctx.fillStyle = '#404040';
+        ctx.fillText(fitText(ctx, caption, cellWidth), x, y + imageHeight + fontSize * 0.5);
+    });
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mime: string, quality?: number) =>
+    new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mime, quality));
+
+// Minimal PDF: one full-page JPEG per page
+const buildImagePdf = (pages: { jpeg: Blob; width: number; height: number }[], paper: { width: number; height: number }) => {
+    const parts: BlobPart[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (chunk: string | Blob) => {
+        const part = typeof chunk === 'string' ? textEncoder.encode(chunk) : chunk;
+        parts.push(part);
+        length += part instanceof Blob ? part.size : part.length;
+    };
+    const object = (id: number, body: string, stream?: string | Blob) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n${body}\n`);
+        if (stream) {
+            write('stream\n');
+            write(stream);
+            write('\nendstream\n');
+        }
+        write('endobj\n');
+    };
+
+    // Objects: 1 catalog, 2 page tree, then page, image and content stream for every page
+    const pageId = (i: number) => 3 + i * 3;
+    write('%PDF-1.4\n%\xff\xff\xff\xff\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    pages.forEach((page, i) => {
+        const id = pageId(i);
+        const w = paper.width.toFixed(2);
+        const h = paper.height.toFixed(2);
+        object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 ${id + 1} 0 R >> >> /Contents ${id + 2} 0 R >>`);
+        object(id + 1, `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.size} >>`, page.jpeg);
+        const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+        object(id + 2, `<< /Length ${content.length} >>`, content);
+    });
+
+    const xref = length;
+    const count = pageId(pages.length);
+    write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+    for (let id = 1; id < count; id++) write(`${offsets[id].toString().padStart(10, '0')} 00000 n \n`);
+    write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+    return new Blob(parts, { type: 'application/pdf' });
+};
+
+const renderContactSheet = async (items: ContactSheetItem[], settings: ContactSheetSettings, title: string): Promise<Blob | null> => {
+    const aspect = Math.max(...items.map(({ image }) => image.width / image.height));
+    const { columns } = settings;
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    if (settings.format === 'pdf') {
+        const paper = PAPER_SIZES[settings.paper];
+        const width = Math.round(paper.width / 72 * CONTACT_SHEET_DPI);
+        const height = Math.round(paper.height / 72 * CONTACT_SHEET_DPI);
+        const layout = contactSheetLayout(width, columns, aspect);
+        const rowHeight = layout.imageHeight + layout.captionHeight + layout.gap;
+        const rows = Math.max(1, Math.floor((height - layout.margin * 2 - layout.header + layout.gap) / rowHeight));
+        const perPage = rows * columns;
+        canvas.width = width;
+        canvas.height = height;
+
+        const pages: { jpeg: Blob; width: number; height: number }[] = [];
+        for (let start = 0; start < items.length; start += perPage) {
+            const pageTitle = `${title} · ${start / perPage + 1}/${Math.ceil(items.length / perPage)}`;
+            drawContactSheet(ctx, layout, height, items.slice(start, start + perPage), columns, pageTitle);
+            const jpeg = await canvasToBlob(canvas, 'image/jpeg', 0.9);
+            if (!jpeg) return null;
+            pages.push({ jpeg, width, height });
+        }
+        return buildImagePdf(pages, paper);
+    }
+
+    // A single image holding every frame, narrowed if it would exceed the canvas limit
+    const rows = Math.ceil(items.length / columns);
+    const heightFor = (layout: ContactSheetLayout) =>
+        Math.ceil(layout.margin * 2 + layout.header + rows * (layout.imageHeight + layout.captionHeight + layout.gap) - layout.gap);
+    let layout = contactSheetLayout(CONTACT_SHEET_IMAGE_WIDTH, columns, aspect);
+    if (heightFor(layout) > MAX_CANVAS_EDGE) {
+        layout = contactSheetLayout(Math.floor(CONTACT_SHEET_IMAGE_WIDTH * MAX_CANVAS_EDGE / heightFor(layout)), columns, aspect);
+    }
+    canvas.width = layout.width;
+    canvas.height = Math.min(MAX_CANVAS_EDGE, heightFor(layout));
+    drawContactSheet(ctx, layout, canvas.height, items, columns, title);
+    return settings.format === 'png' ? canvasToBlob(canvas, 'image/png') : canvasToBlob(canvas, 'image/jpeg', 0.9);
+};
+
+interface ContactSheetDialogProps {
+  settings: ContactSheetSettings;
+  selectedCount: number;
+  totalCount: number;
+  onChange: (settings: ContactSheetSettings) => void;
+  onConfirm: () => void;
+  onClose: () => void;
+  t: Record<string, string>;
+}
+
+const ContactSheetDialog = ({ settings, selectedCount, totalCount, onChange, onConfirm, onClose, t }: ContactSheetDialogProps) => {
+    const count = settings.scope === 'selected' ? selectedCount : totalCount;
+    const formats: { value: ContactSheetFormat; label: string }[] = [
+        { value: 'pdf', label: 'PDF' },
+        { value: 'png', label: 'PNG' },
+        { value: 'jpeg', label: 'JPEG' }
+    ];
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+            <div className="w-full max-w-md bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-5 text-sm" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-medium text-neutral-100">{t.contactSheet}</h2>
+                    <button onClick={onClose} className="p-1 text-neutral-400 hover:text-white transition-colors" title={t.close}>
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="space-y-2">
+                    <label className="text-neutral-400">{t.exportFormat}</label>
+                    <div className="grid grid-cols-3 gap-2">
+                        {formats.map(({ value, label }) => (
+                            <button
+                                key={value}
+                                onClick={() => onChange({ ...settings, format: value })}
+                                className={`py-1.5 rounded-md font-medium transition-colors ${settings.format === value ? 'bg-white text-black' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                        <label className="text-neutral-400">{t.sheetColumns}</label>
+                        <select
+                            value={settings.columns}
+                            onChange={(e) => onChange({ ...settings, columns: Number(e.target.value) })}
+                            className="w-full bg-neutral-800 text-neutral-200 rounded-md p-2 outline-none"
+                        >
+                            {CONTACT_SHEET_COLUMNS.map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                    </div>
+                    {settings.format === 'pdf' && (
+                        <div className="space-y-2">
+                            <label className="text-neutral-400">{t.paperSize}</label>
+                            <select
+                                value={settings.paper}
+                                onChange={(e) => onChange({ ...settings, paper: e.target.value as ContactSheetPaper })}
+                                className="w-full bg-neutral-800 text-neutral-200 rounded-md p-2 outline-none"
+                            >
+                                {(Object.keys(PAPER_SIZES) as ContactSheetPaper[]).map(paper => (
+                                    <option key={paper} value={paper}>{PAPER_SIZES[paper].label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                </div>
+
+                <div className="space-y-2">
+                    <label className="text-neutral-400">{t.sheetFrames}</label>
+                    <div className="grid grid-cols-2 gap-2">
+                        {(['selected', 'all'] as const).map(scope => (
+                            <button
+                                key={scope}
+                                onClick={() => onChange({ ...settings, scope })}
+                                className={`py-1.5 rounded-md font-medium transition-colors ${settings.scope === scope ? 'bg-white text-black' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'}`}
+                            >
+                                {scope === 'selected' ? `${t.statusSelected} (${selectedCount})` : `${t.sheetAll} (${totalCount})`}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <button
+                    onClick={onConfirm}
+                    disabled={count === 0}
+                    className="w-full flex items-center justify-center gap-2 py-2.5 rounded-lg bg-white text-black font-medium hover:bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                    <Download className="w-4 h-4" />
+                    <span>{t.exportConfirm} ({count})</span>
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+// --- Animated Clips ---
+
+type ClipFormat = 'gif' | 'webp';
+type ClipPlayback = 'loop' | 'boomerang';
+
+interface ClipSettings {
+  format: ClipFormat;
+  duration: number;       // Seconds, centred on the frame's timestamp
+  fps: number;
+  longEdge: number;
+  playback: ClipPlayback; // Boomerang plays forward then backward
+  pairWithStill: boolean; // Downloads the clip and the still together, sharing one base name
+}
+
+const DEFAULT_CLIP_SETTINGS: ClipSettings = { format: 'gif', duration: 3, fps: 15, longEdge: 480, playback: 'loop', pairWithStill: false };
+
+const CLIP_FORMATS: Record<ClipFormat, { mime: string; extension: string; label: string }> = {
+  gif: { mime: 'image/gif', extension: 'gif', label: 'GIF' },
+  webp: { mime: 'image/webp', extension: 'webp', label: 'WebP' }
+};
+const CLIP_DURATIONS = [1, 2, 3, 5];
+const CLIP_FPS = [10, 15, 20, 25];
+const CLIP_SIZES = [320, 480, 640, 800];
+const CLIP_WEBP_QUALITY = 0.8;
+const GIF_PALETTE_SAMPLES = 65536;
+
+// Centres the window on `center`, sliding it inward near either end of the video
+const clipFrameTimes = (center: number, duration: number, fps: number, videoDuration: number) => {
+    const length = Math.min(duration, videoDuration);
+    const start = clamp(center - length / 2, 0, Math.max(0, videoDuration - length));
+    const count = Math.max(1, Math.round(length * fps));
+    return Array.from({ length: count }, (_, i) => start + (i + 0.5) / fps);
+};
+
+// Median cut over pixels sampled from every frame, so all frames share one global color table
+const buildGifPalette = (frames: Uint8ClampedArray[], samples: number) => {
+    const total = frames.reduce((sum, f) => sum + f.length / 4, 0);
+    const step = Math.max(1, Math.floor(total / samples));
+    const rgb: number[] = [];
+    for (const f of frames) {
+        for (let i = 0; i < f.length; i += step * 4) rgb.push(f[i], f[i + 1], f[i + 2]);
+    }
+    const order = new Uint32Array(rgb.length / 3).map((_, i) => i);
+    // Each box remembers its widest channel, measured once when it is created
+    const makeBox = (start: number, end: number) => {
+        let channel = 0;
+        let spread = -1;
+        for (let c = 0; c < 3; c++) {
+            let min = 255;
+            let max = 0;
+            for (let i = start; i < end; i++) {
+                const v = rgb[order[i] * 3 + c];
+                if (v < min) min = v;
+                if (v > max) max = v;
+            }
+            if (max - min > spread) {
+                channel = c;
+                spread = max - min;
+            }
+        }
+        return { start, end, channel, spread: end - start < 2 ? 0 : spread };
+    };
+    const boxes = [makeBox(0, order.length)];
+    while (boxes.length < 256) {
+        let pick = -1;
+        boxes.forEach((box, i) => {
+            if (box.spread > 0 && (pick === -1 || box.spread > boxes[pick].spread)) pick = i;
+        });
+        if (pick === -1) break;
+        const { start, end, channel } = boxes[pick];
+        order.subarray(start, end).sort((a, b) => rgb[a * 3 + channel] - rgb[b * 3 + channel]);
+        const mid = start + ((end - start) >> 1);
+        boxes.splice(pick, 1, makeBox(start, mid), makeBox(mid, end));
+    }
+    const palette = new Uint8Array(256 * 3);
+    boxes.forEach((box, p) => {
+        const sum = [0, 0, 0];
+        for (let i = box.start; i < box.end; i++) {
+            for (let c = 0; c < 3; c++) sum[c] += rgb[order[i] * 3 + c];
+        }
+        const count = Math.max(1, box.end - box.start);
+        for (let c = 0; c < 3; c++) palette[p * 3 + c] = Math.round(sum[c] / count);
+    });
+    return { palette, size: Math.max(1, boxes.length) };
+};
+
+// Nearest palette entry per pixel, memoised on 15-bit color since neighbouring frames repeat colors
+const mapToPalette = (rgba: Uint8ClampedArray, palette: Uint8Array, size: number, cache: Int16Array) => {
+    const out = new Uint8Array(rgba.length / 4);
+    for (let i = 0, p = 0; i < rgba.length; i += 4, p++) {
+        const r = rgba[i];
+        const g = rgba[i + 1];
+        const b = rgba[i + 2];
+        const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+        let index = cache[key];
+        if (index < 0) {
+            let best = Infinity;
+            for (let e = 0; e < size; e++) {
+                const dr = r - palette[e * 3];
+                const dg = g - palette[e * 3 + 1];
+                const db = b - palette[e * 3 + 2];
+                const d = 2 * dr * dr + 4 * dg * dg + 3 * db * db;
+                if (d < best) {
+                    best = d;
+                    index = e;
+                }
+            }
+            cache[key] = index;
+        }
+        out[p] = index;
+    }
+    return out;
+};
+
+// Variable-width LZW as GIF expects it, packed LSB-first into 255-byte sub-blocks
+const lzwEncode = (indices: Uint8Array, minCodeSize: number) => {
+    const bytes: number[] = [];
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let table = new Map<number, number>();
+    let bits = 0;
+    let bitCount = 0;
+    const emit = (code: number) => {
+        bits |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            bytes.push(bits & 0xff);
+            bits >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    emit(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const k = indices[i];
+        const key = (prefix << 8) | k;
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+        emit(prefix);
+        if (nextCode === 4096) {
+            emit(clearCode);
+            table = new Map();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = k;
+    }
+    emit(prefix);
+    emit(endCode);
+    if (bitCount > 0) bytes.push(bits & 0xff);
+
+    const out = new Uint8Array(bytes.length + Math.ceil(bytes.length / 255) + 1);
+    let o = 0;
+    for (let i = 0; i < bytes.length; i += 255) {
+        const block = bytes.slice(i, i + 255);
+        out[o++] = block.length;
+        out.set(block, o);
+        o += block.length;
+    }
+    out[o] = 0;
+    return out;
+};
+
+// GIF89a looping forever; every frame is full-size and replaces the previous one
+const encodeGif = (frames: Uint8ClampedArray[], width: number, height: number, delayCs: number, samples: number) => {
+    const { palette, size } = buildGifPalette(frames, samples);
+    const cache = new Int16Array(32768).fill(-1);
+    const parts: Uint8Array[] = [];
+    const le16 = (v: number) => [v & 0xff, (v >> 8) & 0xff];
+    const ascii = (text: string) => Array.from(text, ch => ch.charCodeAt(0));
+
+    parts.push(new Uint8Array([
+        ...ascii('GIF89a'), ...le16(width), ...le16(height), 0xf7, 0, 0,
+        ...palette,
+        0x21, 0xff, 0x0b, ...ascii('NETSCAPE2.0'), 0x03, 0x01, 0, 0, 0
+    ]));
+    for (const frame of frames) {
+        parts.push(new Uint8Array([
+            0x21, 0xf9, 0x04, 0x04, ...le16(delayCs), 0, 0,
+            0x2c, 0, 0, 0, 0, ...le16(width), ...le16(height), 0,
+            8
+        ]));
+        parts.push(lzwEncode(mapToPalette(frame, palette, size, cache), 8));
+    }
+    parts.push(new Uint8Array([0x3b]));
+
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const p of parts) {
+        out.set(p, offset);
+        offset += p.length;
+    }
+    return out;
+};
+
+// Like the stacking worker, the GIF worker is assembled from the functions above
+const GIF_WORKER_SOURCE = `
+const buildGifPalette = ${buildGifPalette.toString()};
+const mapToPalette = ${mapToPalette.toString()};
+const lzwEncode = ${lzwEncode.toString()};
+const encodeGif = ${encodeGif.toString()};
+self.onmessage = (e) => {
+  const { frames, width, height, delayCs, samples } = e.data;
+  try {
+    const gif = encodeGif(frames.map(buffer => new Uint8ClampedArray(buffer)), width, height, delayCs, samples);
+    self.postMessage({ result: gif.buffer }, [gif.buffer]);
+  } catch (error) {
+    self.postMessage({ error: String(error) });
+  }
+};
+`;
+
+// Frame buffers are transferred, so `frames` is unusable afterwards
+const encodeGifInWorker = (frames: ImageData[], delayCs: number): Promise<Blob> => {
+    const { width, height } = frames[0];
+    const url = URL.createObjectURL(new Blob([GIF_WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    const done = () => {
+        worker.terminate();
+        URL.revokeObjectURL(url);
+    };
+    return new Promise((resolve, reject) => {
+        worker.onmessage = (e: MessageEvent<{ result?: ArrayBuffer; error?: string }>) => {
+            done();
+            if (e.data.result) resolve(new Blob([e.data.result], { type: CLIP_FORMATS.gif.mime }));
+            else reject(new Error(e.data.error ?? 'GIF encoding failed'));
+        };
+        worker.onerror = (e) => {
+            done();
+            reject(e);
+        };
+        const buffers = frames.map(f => f.data.buffer as ArrayBuffer);
+        worker.postMessage({ frames: buffers, width, height, delayCs, samples: GIF_PALETTE_SAMPLES }, buffers);
+    });
+};
+
+// Wraps the image chunks of single-frame WebPs (as the canvas encodes them) into ANMF frames
+const buildAnimatedWebp = (stills: Uint8Array[], width: number, height: number, delayMs: number) => {
+    const VP8X_FLAG_ANIMATION = 0x02;
+    const ANMF_NO_BLEND = 0x02;
+    const le24 = (v: number) => [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff];
+    let alpha = false;
+    const frames = stills.map(bytes => {
+        if (fourCC(bytes, 0) !== 'RIFF' || fourCC(bytes, 8) !== 'WEBP') throw new Error('Not a WebP image');
+        const image: Uint8Array[] = [];
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        for (let at = 12; at + 8 <= bytes.length;) {
+            const type = fourCC(bytes, at);
+            const size = view.getUint32(at + 4, true);
+            const end = at + 8 + size + (size & 1);
+            if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') image.push(bytes.subarray(at, end));
+            if (type === 'ALPH') alpha = true;
+            at = end;
+        }
+        const header = new Uint8Array([0, 0, 0, 0, 0, 0, ...le24(width - 1), ...le24(height - 1), ...le24(delayMs), ANMF_NO_BLEND]);
+        return riffChunk('ANMF', concatBytes([header, ...image]));
+    });
+
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = VP8X_FLAG_ANIMATION | (alpha ? VP8X_FLAG_ALPHA : 0);
+    writeVp8xSize(vp8x, width, height);
+    // Background color (BGRA) then loop count; 0 loops forever
+    const anim = new Uint8Array(6);
+    const out = concatBytes([textEncoder.encode('RIFF'), new Uint8Array(4), textEncoder.encode('WEBP'), riffChunk('VP8X', vp8x), riffChunk('ANIM', anim), ...frames]);
+    new DataView(out.buffer).setUint32(4, out.length - 8, true);
+    return out;
+};
+
+// Reads the clip's frames from the source with the still's edits applied and encodes them
+const renderClip = async (video: HTMLVideoElement, center: number, settings: ClipSettings, edits: FrameEdits): Promise<Blob | null> => {
+    const sourceWidth = video.videoWidth;
+    const sourceHeight = video.videoHeight;
+    const cropped = croppedSize(sourceWidth, sourceHeight, edits.crop ?? FULL_CROP);
+    const { width, height } = fitLongEdge(cropped.width, cropped.height, settings.longEdge);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.imageSmoothingQuality = 'high';
+
+    const gifFrames: ImageData[] = [];
+    const webpFrames: Uint8Array[] = [];
+    try {
+        for (const time of clipFrameTimes(center, settings.duration, settings.fps, video.duration)) {
+            if (!await seekVideo(video, time)) continue;
+            drawEdited(ctx, video, sourceWidth, sourceHeight, edits, width, height);
+            if (settings.format === 'gif') {
+                gifFrames.push(ctx.getImageData(0, 0, width, height));
+            } else {
+                const still = await canvasToBlob(canvas, CLIP_FORMATS.webp.mime, CLIP_WEBP_QUALITY);
+                if (!still || still.type !== CLIP_FORMATS.webp.mime) return null;
+                webpFrames.push(new Uint8Array(await still.arrayBuffer()));
+            }
+        }
+    } finally {
+        canvas.remove();
+    }
+
+    // Boomerang appends the frames in reverse, without repeating either turning point
+    const bounce = <T,>(items: T[]) => settings.playback === 'boomerang' ? [...items, ...items.slice(1, -1).reverse()] : items;
+    if (settings.format === 'gif') {
+        if (gifFrames.length === 0) return null;
+        // Each frame is transferred to the worker once, so the reversed half needs its own copies
+        const sequence = bounce(gifFrames).map((f, i) => i < gifFrames.length ? f : new ImageData(new Uint8ClampedArray(f.data), width, height));
+        return encodeGifInWorker(sequence, Math.round(100 / settings.fps));
+    }
+    if (webpFrames.length === 0) return null;
+    const webp: BlobPart = buildAnimatedWebp(bounce(webpFrames), width, height, Math.round(1000 / settings.fps));
+    return new Blob([webp], { type: CLIP_FORMATS.webp.mime });
+};
+
+interface ClipDialogProps {
+  settings: ClipSettings;
+  canEncodeWebp: boolean;
+  isIncluded: boolean;    // The frame's clip is added to the ZIP export
+  onChange: (settings: ClipSettings) => void;
+  onRender: (settings: ClipSettings) => Promise<Blob | null>;
+  onDownload: (clip: Blob, settings: ClipSettings) => void;
+  onToggleInclude: (settings: ClipSettings | undefined) => void;
+  onClose: () => void;
+  t: Record<string, string>;
+}
+
+const ClipDialog = ({ settings, canEncodeWebp, isIncluded, onChange, onRender, onDownload, onToggleInclude, onClose, t }: ClipDialogProps) => {
+    const [preview, setPreview] = useState<{ blob: Blob; url: string; settings: ClipSettings } | null>(null);
+    const [isRendering, setIsRendering] = useState(false);
+    useEffect(() => () => { if (preview) URL.revokeObjectURL(preview.url); }, [preview]);
+
+    // Rendering is slow, so a preview is reused for downloading until the settings change
+    const render = async () => {
+        if (preview && preview.settings === settings) return preview.blob;
+        setIsRendering(true);
+        try {
+            const blob = await onRender(settings);
+            if (blob) setPreview({ blob, url: URL.createObjectURL(blob), settings });
+            return blob;
+        } finally {
+            setIsRendering(false);
+        }
+    };
+    const choice = (active: boolean) =>
+        `py-1.5 rounded-md font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${active ? 'bg-white text-black' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'}`;
+
+    return (
+        <div className="w-[min(28rem,calc(100vw-2rem))] bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-5 text-sm" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-medium text-neutral-100">{t.clip}</h2>
+                <button onClick={onClose} className="p-1 text-neutral-400 hover:text-white transition-colors" title={t.close}>
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+
+            <div className="flex items-center justify-center h-48 bg-black rounded-lg overflow-hidden">
+                {isRendering ? <Loader2 className="w-6 h-6 text-neutral-500 animate-spin" />
+                    : preview ? <img src={preview.url} alt={t.clip} className="max-w-full max-h-full object-contain" />
+                    : <button onClick={render} className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-neutral-800 text-neutral-200 hover:bg-neutral-700 transition-colors">
+                        <Play className="w-4 h-4" />
+                        <span>{t.clipPreview}</span>
+                    </button>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                    <label className="text-neutral-400">{t.exportFormat}</label>
+                    <div className="grid grid-cols-2 gap-2">
+                        {(Object.keys(CLIP_FORMATS) as ClipFormat[]).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => onChange({ ...settings, format })}
+                                disabled={format === 'webp' && !canEncodeWebp}
+                                className={choice(settings.format === format)}
+                            >
+                                {CLIP_FORMATS[format].label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="space-y-2">
+                    <label className="text-neutral-400">{t.clipPlayback}</label>
+                    <div className="grid grid-cols-2 gap-2">
+                        {(['loop', 'boomerang'] as const).map(playback => (
+                            <button key={playback} onClick={() => onChange({ ...settings, playback })} className={choice(settings.playback === playback)}>
+                                {playback === 'loop' ? t.clipLoop : t.clipBoomerang}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-2">
+                    <label className="text-neutral-400">{t.clipDuration}</label>
+                    <select
+                        value={settings.duration}
+                        onChange={(e) => onChange({ ...settings, duration: Number(e.target.value) })}
+                        className="w-full bg-neutral-800 text-neutral-200 rounded-md p-2 outline-none"
+                    >
+                        {CLIP_DURATIONS.map(n => <option key={n} value={n}>{n}s</option>)}
+                    </select>
+                </div>
+                <div className="space-y-2">
+                    <label className="text-neutral-400">{t.clipFps}</label>
+                    <select
+                        value={settings.fps}
+                        onChange={(e) => onChange({ ...settings, fps: Number(e.target.value) })}
+                        className="w-full bg-neutral-800 text-neutral-200 rounded-md p-2 outline-none"
+                    >
+                        {CLIP_FPS.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                </div>
+                <div className="space-y-2">
+                    <label className="text-neutral-400">{t.exportSize}</label>
+                    <select
+                        value={settings.longEdge}
+                        onChange={(e) => onChange({ ...settings, longEdge: Number(e.target.value) })}
+                        className="w-full bg-neutral-800 text-neutral-200 rounded-md p-2 outline-none"
+                    >
+                        {CLIP_SIZES.map(n => <option key={n} value={n}>{n}px</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <label className="flex items-center gap-2 text-neutral-300 cursor-pointer">
+                    <input type="checkbox" checked={settings.pairWithStill} onChange={(e) => onChange({ ...settings, pairWithStill: e.target.checked })} className="accent-white" />
+                    <span>{t.clipPairWithStill}</span>
+                </label>
+                <label className="flex items-center gap-2 text-neutral-300 cursor-pointer">
+                    <input type="checkbox" checked={isIncluded} onChange={(e) => onToggleInclude(e.target.checked ? settings : undefined)} className="accent-white" />
+                    <span>{t.clipIncludeInZip}</span>
+                </label>
+            </div>
+
+            <button
+                onClick={async () => {
+                    const blob = await render();
+                    if (blob) onDownload(blob, settings);
+                }}
+                disabled={isRendering}
+                className="w-full flex items-center justify-center gap-2 py-2.5 rounded-lg bg-white text-black font-medium hover:bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+                {isRendering ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                <span>{t.clipDownload}</span>
+            </button>
+        </div>
+    );
+};
+
+// --- Session Persistence ---
+
+const SESSION_DB_NAME = 'folio';
+const SESSION_DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const FRAME_BLOB_STORE = 'frameBlobs';   // [sessionId, frameId] -> extracted still
+const FRAME_THUMBNAIL_STORE = 'frameThumbnails'; // [sessionId, frameId] -> its grid thumbnail
+const SOURCE_FILE_STORE = 'sourceFiles'; // [sessionId, sourceId] -> original video, for export and re-capture
+const SPILL_STORE = 'spilledFrames';     // [pageId, key] -> still moved out of memory, when OPFS can't be written
+
+// Minimum gap between two saves while frames are streaming in
+const SESSION_SAVE_INTERVAL = 1500;
+
+type StoredFrame = Omit<PortfolioFrame, 'url' | 'blob' | 'thumbnail' | 'previewUrl'>;
+type StoredSource = Omit<VideoSource, 'file'>;
+
+interface SessionSettings {
+  framepSecond: number;
+  extractionMode: ExtractionMode;
+  sceneSensitivity: number;
+  minQuality: number;
+  showHidden: boolean;
+  groupSimilar: boolean;
+  groupDistance: number;
+  sortMode: FrameSortMode;
+  facesOnly: boolean;
+  ratingFilter: number;
+  labelFilter: ColorLabel | null;
+  hideRejected: boolean;
+  galleryLayout: GalleryLayout;
+  exportSettings: ExportSettings;
+}
+
+interface StoredSession {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  bytes: number;          // Stills plus source videos
+  sources: StoredSource[];
+  frames: StoredFrame[];
+  settings: SessionSettings;
+}
+
+interface RestoredSession extends StoredSession {
+  files: Map<string, File>;
+  blobs: Map<string, Blob>;
+  thumbnails: Map<string, Blob>;  // Missing for sessions saved before thumbnails existed
+}
+
+let sessionDb: Promise<IDBDatabase> | null = null;
+
+const openSessionDb = () => {
+    sessionDb ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(SESSION_DB_NAME, SESSION_DB_VERSION);
+        request.onupgradeneeded = (e) => {
+            const db = request.result;
+            if (e.oldVersion < 1) {
+                db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+                db.createObjectStore(FRAME_BLOB_STORE);
+                db.createObjectStore(SOURCE_FILE_STORE);
+            }
+            if (e.oldVersion < 2) {
+                db.createObjectStore(FRAME_THUMBNAIL_STORE);
+                db.createObjectStore(SPILL_STORE);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            sessionDb = null;
+            reject(request.error);
+        };
+    });
+    return sessionDb;
+};
+
+const idbRequest = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const idbTransactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+// Every key of one session in a [sessionId, itemId] keyed store
+const sessionKeyRange = (sessionId: string) => IDBKeyRange.bound([sessionId, ''], [sessionId, '\uffff']);
+
+interface StoredState {
+  blobs: Map<string, Blob>;
+  files: Set<string>;
+  skipFiles: boolean;     // Set once the source videos no longer fit
+}
+
+const isQuotaError = (e: unknown) => e instanceof DOMException && e.name === 'QuotaExceededError';
+
+/**
+ * Writes the session record plus only what changed since the last save: new or replaced stills,
+ * deleted stills and source videos not stored yet. `stored` tracks what is on disk and is updated in place.
+ * Resolves to true when the source videos ran out of space on this save and will no longer be stored.
+ */
+const saveSession = async (
+    session: Omit<StoredSession, 'bytes'>,
+    frames: PortfolioFrame[],
+    files: Map<string, File>,
+    stored: StoredState
+): Promise<boolean> => {
+    const db = await openSessionDb();
+    const tx = db.transaction([SESSION_STORE, FRAME_BLOB_STORE, FRAME_THUMBNAIL_STORE], 'readwrite');
+    const blobStore = tx.objectStore(FRAME_BLOB_STORE);
+    const thumbnailStore = tx.objectStore(FRAME_THUMBNAIL_STORE);
+
+    const current = new Set(frames.map(f => f.id));
+    for (const id of stored.blobs.keys()) {
+        if (current.has(id)) continue;
+        blobStore.delete([session.id, id]);
+        thumbnailStore.delete([session.id, id]);
+    }
+    for (const frame of frames) {
+        if (stored.blobs.get(frame.id) === frame.blob) continue;
+        blobStore.put(frame.blob, [session.id, frame.id]);
+        thumbnailStore.put(frame.thumbnail, [session.id, frame.id]);
+    }
+    const frameBytes = frames.reduce((n, f) => n + f.blob.size + f.thumbnail.size, 0);
+    const storedFileBytes = () => [...files].reduce((n, [id, f]) => n + (stored.files.has(id) ? f.size : 0), 0);
+    tx.objectStore(SESSION_STORE).put({ ...session, bytes: frameBytes + storedFileBytes() });
+    await idbTransactionDone(tx);
+    stored.blobs = new Map(frames.map(f => [f.id, f.blob]));
+
+    // Source videos are far larger than the stills, so they go in their own transaction:
+    // running out of space for a video must not cost the stills and edits saved above
+    const newFiles = stored.skipFiles ? [] : [...files].filter(([id]) => !stored.files.has(id));
+    if (newFiles.length === 0) return false;
+    const fileTx = db.transaction([SESSION_STORE, SOURCE_FILE_STORE], 'readwrite');
+    for (const [id, file] of newFiles) fileTx.objectStore(SOURCE_FILE_STORE).put(file, [session.id, id]);
+    const newBytes = newFiles.reduce((n, [, f]) => n + f.size, 0);
+    fileTx.objectStore(SESSION_STORE).put({ ...session, bytes: frameBytes + storedFileBytes() + newBytes });
+    try {
+        await idbTransactionDone(fileTx);
+    } catch (e) {
+        if (!isQuotaError(e)) throw e;
+        stored.skipFiles = true;
+        return true;
+    }
+    newFiles.forEach(([id]) => stored.files.add(id));
+    return false;
+};
+
+// Newest first
+const listSessions = async (): Promise<StoredSession[]> => {
+    const db = await openSessionDb();
+    const sessions = await idbRequest(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll() as IDBRequest<StoredSession[]>);
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const loadSession = async (id: string): Promise<RestoredSession | null> => {
+    const db = await openSessionDb();
+    const tx = db.transaction([SESSION_STORE, FRAME_BLOB_STORE, FRAME_THUMBNAIL_STORE, SOURCE_FILE_STORE]);
+    const [session, blobKeys, blobs, thumbnailKeys, thumbnails, fileKeys, files] = await Promise.all([
+        idbRequest(tx.objectStore(SESSION_STORE).get(id) as IDBRequest<StoredSession | undefined>),
+        idbRequest(tx.objectStore(FRAME_BLOB_STORE).getAllKeys(sessionKeyRange(id))),
+        idbRequest(tx.objectStore(FRAME_BLOB_STORE).getAll(sessionKeyRange(id)) as IDBRequest<Blob[]>),
+        idbRequest(tx.objectStore(FRAME_THUMBNAIL_STORE).getAllKeys(sessionKeyRange(id))),
+        idbRequest(tx.objectStore(FRAME_THUMBNAIL_STORE).getAll(sessionKeyRange(id)) as IDBRequest<Blob[]>),
+        idbRequest(tx.objectStore(SOURCE_FILE_STORE).getAllKeys(sessionKeyRange(id))),
+        idbRequest(tx.objectStore(SOURCE_FILE_STORE).getAll(sessionKeyRange(id)) as IDBRequest<File[]>)
+    ]);
+    if (!session) return null;
+    const byItemId = <T,>(keys: IDBValidKey[], values: T[]) =>
+        new Map(keys.map((key, i) => [(key as string[])[1], values[i]]));
+    return {
+        ...session,
+        blobs: byItemId(blobKeys, blobs),
+        thumbnails: byItemId(thumbnailKeys, thumbnails),
+        files: byItemId(fileKeys, files)
+    };
+};
+
+const deleteSession = async (id: string) => {
+    const db = await openSessionDb();
+    const tx = db.transaction([SESSION_STORE, FRAME_BLOB_STORE, FRAME_THUMBNAIL_STORE, SOURCE_FILE_STORE], 'readwrite');
+    tx.objectStore(SESSION_STORE).delete(id);
+    tx.objectStore(FRAME_BLOB_STORE).delete(sessionKeyRange(id));
+    tx.objectStore(FRAME_THUMBNAIL_STORE).delete(sessionKeyRange(id));
+    tx.objectStore(SOURCE_FILE_STORE).delete(sessionKeyRange(id));
+    await idbTransactionDone(tx);
+};
+
+const getStorageEstimate = async () => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+};
+
+// 1536 -> "1.5 KB"
+const formatBytes = (bytes: number) => {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+interface SessionListProps {
+  sessions: StoredSession[];
+  storage: { usage: number; quota: number } | null;
+  onResume: (id: string) => void;
+  onDiscard: (id: string) => void;
+  locale: string;
+  t: Record<string, string>;
+}
+
+const SessionList = ({ sessions, storage, onResume, onDiscard, locale, t }: SessionListProps) => (
+    <div className="w-full text-start space-y-3 bg-neutral-900/60 border border-neutral-800 rounded-2xl p-4">
+        <div className="flex items-baseline justify-between gap-4">
+            <h2 className="text-neutral-200 font-medium">{t.savedSessions}</h2>
+            {storage && (
+                <span className="text-xs font-mono text-neutral-500">
+                    {t.storageUsed} {formatBytes(storage.usage)} / {formatBytes(storage.quota)}
+                </span>
+            )}
+        </div>
+        <ul className="space-y-2 max-h-60 overflow-y-auto">
+            {sessions.map((session, i) => (
+                <li key={session.id} className="flex items-center gap-3 text-sm">
+                    <History className="w-4 h-4 shrink-0 text-neutral-600" />
+                    <div className="flex-1 min-w-0">
+                        <p className="truncate text-neutral-300" title={session.sources.map(s => s.name).join(', ')}>
+                            {session.sources.map(s => s.name).join(', ')}
+                        </p>
+                        <p className="text-xs text-neutral-500">
+                            {new Date(session.updatedAt).toLocaleString(locale)} · {formatMessage(t.framesLabel, { count: session.frames.length }, locale)} · {formatBytes(session.bytes)}
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => onResume(session.id)}
+                        className={`px-3 py-1.5 rounded-lg font-medium transition-colors ${i === 0 ? 'bg-white text-black hover:bg-neutral-200' : 'text-neutral-300 bg-neutral-800 hover:bg-neutral-700'}`}
+                    >
+                        {t.resumeSession}
+                    </button>
+                    <button
+                        onClick={() => onDiscard(session.id)}
+                        className="p-1.5 rounded-lg text-neutral-500 hover:text-red-400 transition-colors"
+                        title={t.discardSession}
+                    >
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
+interface SourceQueueProps {
+  sources: VideoSource[];
+  statusLabels: Record<VideoSourceStatus, string>;
+}
+
+// Per-video progress for a batch run
+const SourceQueue = ({ sources, statusLabels }: SourceQueueProps) => (
+    <ul className="space-y-2 text-start max-h-60 overflow-y-auto">
+        {sources.map(source => (
+            <li key={source.id} className="flex items-center gap-3 text-sm">
+                <Film className={`w-4 h-4 shrink-0 ${source.status === 'processing' ? 'text-blue-500' : 'text-neutral-600'}`} />
+                <span className="flex-1 truncate text-neutral-300" title={source.name}>{source.name}</span>
+                <div className="w-20 h-1 bg-neutral-800 rounded-full overflow-hidden shrink-0">
+                    <div
+                        className={`h-full transition-all duration-300 ${source.status === 'error' ? 'bg-red-500' : 'bg-blue-500'}`}
+                        style={{ width: `${source.status === 'queued' ? 0 : source.progress}%` }}
+                    />
+                </div>
+                <span className="w-20 text-end text-xs text-neutral-500 shrink-0">
+                    {source.status === 'processing' ? `${source.progress}%` : statusLabels[source.status]}
+                </span>
+            </li>
+        ))}
+    </ul>
+);
+
+interface ProcessingControlsProps {
+  isPaused: boolean;
+  onTogglePause: () => void;
+  onCancel: () => void;
+  labels: { pause: string; resume: string; cancel: string };
+}
+
+const ProcessingControls = ({ isPaused, onTogglePause, onCancel, labels }: ProcessingControlsProps) => (
+    <div className="flex items-center justify-center gap-2">
+        <button
+            onClick={onTogglePause}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-neutral-300 bg-neutral-800 hover:bg-neutral-700 transition-colors"
+        >
+            {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+            <span>{isPaused ? labels.resume : labels.pause}</span>
+        </button>
+        <button
+            onClick={onCancel}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-neutral-300 hover:text-red-400 bg-neutral-800 hover:bg-neutral-700 transition-colors"
+        >
+            <Square className="w-4 h-4" />
+            <span>{labels.cancel}</span>
+        </button>
+    </div>
+);
+
+// --- Frame Storage ---
+// Full-resolution stills stay in memory up to a budget. Past it the oldest are written to disk (OPFS, else
+// IndexedDB) and swapped for disk-backed copies, so the browser only reads them back for the lightbox and export.
+
+const MEMORY_BUDGETS_MB = [128, 256, 512, 1024];
+const DEFAULT_MEMORY_BUDGET_MB = 256;
+const MEMORY_BUDGET_STORAGE_KEY = 'folio-memory-budget';
+const SPILL_DIRECTORY = 'folio-spill';
+
+const getInitialMemoryBudget = () => {
+    try {
+        const stored = Number(localStorage.getItem(MEMORY_BUDGET_STORAGE_KEY));
+        if (MEMORY_BUDGETS_MB.includes(stored)) return stored;
+    } catch {
+        // Storage can be unavailable (e.g. blocked cookies)
+    }
+    return DEFAULT_MEMORY_BUDGET_MB;
+};
+
+// Stills read back from disk (spilled, or restored from a saved session); any other blob is held in memory
+const diskBlobs = new WeakSet<Blob>();
+// In-memory still -> the disk-backed copy that replaced it, for work that started before the swap
+const diskCopies = new WeakMap<Blob, Blob>();
+
+interface SpillStore {
+  // Writes `blob` to disk and returns a disk-backed copy to hold in its place
+  write(key: string, blob: Blob): Promise<Blob>;
+  remove(key: string): Promise<void>;
+}
+
+// Each page spills under its own id and holds a Web Lock named after it while open,
+// so entries of any id whose lock is free were left behind by a closed page
+const SPILL_PAGE_ID = `page-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+const spillLockName = (pageId: string) => `${SPILL_DIRECTORY}:${pageId}`;
+
+// Resolves to the ids of pages still open, or null when that can't be told and nothing may be cleared
+const holdSpillLock = async (): Promise<Set<string> | null> => {
+    if (!navigator.locks) return null;
+    navigator.locks.request(spillLockName(SPILL_PAGE_ID), () => new Promise<never>(() => {}));
+    const { held = [] } = await navigator.locks.query();
+    return new Set(held.flatMap(lock => lock.name?.startsWith(`${SPILL_DIRECTORY}:`) ? [lock.name.slice(SPILL_DIRECTORY.length + 1)] : []));
+};
+
+const isStalePage = (pageId: string, livePages: Set<string> | null) =>
+    livePages !== null && pageId !== SPILL_PAGE_ID && !livePages.has(pageId);
+
+const createOpfsSpillStore = async (livePages: Set<string> | null): Promise<SpillStore> => {
+    const root = await (await navigator.storage.getDirectory()).getDirectoryHandle(SPILL_DIRECTORY, { create: true });
+    // Directory iteration is missing from the DOM typings this file is checked against
+    for await (const pageId of (root as unknown as { keys(): AsyncIterable<string> }).keys()) {
+        if (isStalePage(pageId, livePages)) await root.removeEntry(pageId, { recursive: true }).catch(() => {});
+    }
+    const dir = await root.getDirectoryHandle(SPILL_PAGE_ID, { create: true });
+    return {
+        write: async (key, blob) => {
+            const handle = await dir.getFileHandle(key, { create: true });
+            const writable = await handle.createWritable();
+            await writable.write(blob);
+            await writable.close();
+            return handle.getFile();
+        },
+        remove: (key) => dir.removeEntry(key)
+    };
+};
+
+const createIdbSpillStore = async (livePages: Set<string> | null): Promise<SpillStore> => {
+    const db = await openSessionDb();
+    const keys = await idbRequest(db.transaction(SPILL_STORE).objectStore(SPILL_STORE).getAllKeys());
+    const stale = keys.filter(key => isStalePage((key as string[])[0], livePages));
+    if (stale.length > 0) {
+        const tx = db.transaction(SPILL_STORE, 'readwrite');
+        stale.forEach(key => tx.objectStore(SPILL_STORE).delete(key));
+        await idbTransactionDone(tx);
+    }
+    return {
+        write: async (key, blob) => {
+            const tx = db.transaction(SPILL_STORE, 'readwrite');
+            tx.objectStore(SPILL_STORE).put(blob, [SPILL_PAGE_ID, key]);
+            await idbTransactionDone(tx);
+            // Blobs read back from IndexedDB are backed by its files rather than by memory
+            return idbRequest(db.transaction(SPILL_STORE).objectStore(SPILL_STORE).get([SPILL_PAGE_ID, key]) as IDBRequest<Blob>);
+        },
+        remove: async (key) => {
+            const tx = db.transaction(SPILL_STORE, 'readwrite');
+            tx.objectStore(SPILL_STORE).delete([SPILL_PAGE_ID, key]);
+            await idbTransactionDone(tx);
+        }
+    };
+};
+
+let spillStore: Promise<SpillStore | null> | null = null;
+
+// Resolves to null when neither OPFS nor IndexedDB can be written; stills then stay in memory
+const openSpillStore = () => {
+    spillStore ??= (async () => {
+        const livePages = await holdSpillLock().catch(() => null);
+        // Safari only gained writable OPFS handles recently; older versions fall back to IndexedDB
+        if (typeof navigator.storage?.getDirectory === 'function' && typeof FileSystemFileHandle !== 'undefined'
+            && 'createWritable' in FileSystemFileHandle.prototype) {
+            try {
+                return await createOpfsSpillStore(livePages);
+            } catch (e) {
+                console.warn("Could not use OPFS for frame storage, falling back to IndexedDB:", e);
+            }
+        }
+        try {
+            return await createIdbSpillStore(livePages);
+        } catch (e) {
+            console.warn("Could not use IndexedDB for frame storage:", e);
+            return null;
+        }
+    })();
+    return spillStore;
+};
+
+// Bytes held in memory (full-resolution stills not yet spilled, and every thumbnail) and on disk
+const frameStorageUsage = (frames: PortfolioFrame[]) => {
+    const seen = new Set<Blob>();
+    let memory = 0;
+    let disk = 0;
+    frames.forEach(({ blob, thumbnail }) => {
+        if (!seen.has(blob)) {
+            seen.add(blob);
+            if (diskBlobs.has(blob)) disk += blob.size;
+            else memory += blob.size;
+        }
+        if (!seen.has(thumbnail)) {
+            seen.add(thumbnail);
+            memory += thumbnail.size;
+        }
+    });
+    return { memory, disk };
+};
+
+// The oldest in-memory stills that have to move to disk to bring `frames` back under `budget` bytes
+const stillsToSpill = (frames: PortfolioFrame[], budget: number) => {
+    let excess = frameStorageUsage(frames).memory - budget;
+    const picked = new Set<Blob>();
+    for (const { blob } of frames) {
+        if (excess <= 0) break;
+        if (diskBlobs.has(blob) || picked.has(blob)) continue;
+        picked.add(blob);
+        excess -= blob.size;
+    }
+    return [...picked];
+};
+
+// --- Notifications ---
+
+type ToastTone = 'error' | 'warning' | 'info';
+
+interface Toast {
+  id: number;
+  tone: ToastTone;
+  message: string;
+  action?: { label: string; run: () => void };
+}
+
+// Milliseconds before a toast dismisses itself; errors stay longer so there is time to read them
+const TOAST_DURATION_MS: Record<ToastTone, number> = { error: 12000, warning: 8000, info: 4000 };
+const MAX_TOASTS = 4;
+
+const TOAST_ICONS: Record<ToastTone, React.ReactNode> = {
+  error: <CircleAlert className="w-5 h-5 shrink-0 text-red-400" />,
+  warning: <TriangleAlert className="w-5 h-5 shrink-0 text-amber-400" />,
+  info: <Info className="w-5 h-5 shrink-0 text-blue-400" />
+};
+
+interface ToastStackProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+  t: Record<string, string>;
+}
+
+const ToastStack = ({ toasts, onDismiss, t }: ToastStackProps) => (
+    <div className="fixed bottom-4 end-4 z-[70] flex flex-col gap-2 w-[min(24rem,calc(100vw-2rem))] pointer-events-none">
+        {toasts.map(toast => (
+            <div
+                key={toast.id}
+                role={toast.tone === 'error' ? 'alert' : 'status'}
+                className="pointer-events-auto flex items-start gap-3 p-3 rounded-xl bg-neutral-900/95 border border-neutral-800 shadow-2xl backdrop-blur-md text-sm animate-in fade-in slide-in-from-bottom-2 duration-200"
+            >
+                {TOAST_ICONS[toast.tone]}
+                <div className="flex-1 min-w-0 space-y-1.5">
+                    <p className="text-neutral-200 break-words">{toast.message}</p>
+                    {toast.action && (
+                        <button
+                            onClick={() => {
+                                toast.action?.run();
+                                onDismiss(toast.id);
+                            }}
+                            className="text-xs font-medium text-blue-400 hover:text-blue-300 transition-colors"
+                        >
+                            {toast.action.label}
+                        </button>
+                    )}
+                </div>
+                <button onClick={() => onDismiss(toast.id)} className="p-0.5 text-neutral-500 hover:text-white transition-colors" title={t.close}>
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+        ))}
+    </div>
+);
+
+// The explanation shown for a video that could not be extracted at all
+const describeVideoError = (kind: ErrorKind | undefined, detail: string | undefined, t: Record<string, string>, locale: string) => {
+    switch (kind) {
+        case 'metadataTimeout': return formatMessage(t.errMetadataTimeout, { seconds: METADATA_TIMEOUT_MS / 1000 }, locale);
+        case 'unsupportedCodec': return formatMessage(t.errUnsupportedCodec, { codec: detail ?? 'unknown' }, locale);
+        case 'metadata': return t.errMetadata;
+        case 'canvas': return t.errCanvas;
+        default: return t.errGeneral;
+    }
+};
+
+interface ExtractionReportListProps {
+  sources: VideoSource[];
+  statusLabels: Record<VideoSourceStatus, string>;
+  onCropToPicture?: (sourceId: string, area: PictureArea) => void;
+  locale: string;
+  t: Record<string, string>;
+}
+
+// Per-video outcome of the last extraction run: counts, frames that were lost, or why the video failed
+const ExtractionReportList = ({ sources, statusLabels, onCropToPicture, locale, t }: ExtractionReportListProps) => (
+    <ul className="space-y-3 text-start text-sm">
+        {sources.map(({ id, name, status, report, pictureArea }) => {
+            const issues = report && !report.error ? [
+                report.timedOut > 0 && formatMessage(t.reportTimedOut, { count: report.timedOut }, locale),
+                report.failed > 0 && formatMessage(t.reportFailed, { count: report.failed }, locale)
+            ].filter((issue): issue is string => !!issue) : [];
+            return (
+                <li key={id} className="space-y-1">
+                    <div className="flex items-center gap-2">
+                        <Film className={`w-4 h-4 shrink-0 ${report?.error ? 'text-red-400' : issues.length ? 'text-amber-400' : 'text-neutral-500'}`} />
+                        <span className="flex-1 truncate text-neutral-200" title={name}>{name}</span>
+                        <span className="text-xs text-neutral-500 shrink-0">{statusLabels[status]}</span>
+                    </div>
+                    {report?.error ? (
+                        <p className="ps-6 text-red-300">{describeVideoError(report.error, report.errorDetail, t, locale)}</p>
+                    ) : report && (
+                        <p className="ps-6 text-neutral-400">
+                            {formatMessage(t.reportSummary, { requested: report.requested, extracted: report.extracted }, locale)}
+                            {report.merged > 0 && ` · ${formatMessage(t.reportMerged, { count: report.merged }, locale)}`}
+                            {report.blank > 0 && ` · ${formatMessage(t.reportBlank, { count: report.blank }, locale)}`}
+                            {report.faded > 0 && ` · ${formatMessage(t.reportFaded, { count: report.faded }, locale)}`}
+                        </p>
+                    )}
+                    {issues.map(issue => <p key={issue} className="ps-6 text-amber-300">{issue}</p>)}
+                    {pictureArea && onCropToPicture && (
+                        <div className="ps-6 flex items-center gap-3 text-neutral-400">
+                            <span>{t.barsDetected}</span>
+                            <button
+                                onClick={() => onCropToPicture(id, pictureArea)}
+                                className="text-blue-400 hover:text-blue-300 font-medium transition-colors"
+                            >
+                                {t.cropToPicture}
+                            </button>
+                        </div>
+                    )}
+                </li>
+            );
+        })}
+    </ul>
+);
+
+interface ExtractionReportDialogProps extends ExtractionReportListProps {
+  onClose: () => void;
+}
+
+const ExtractionReportDialog = ({ onClose, ...listProps }: ExtractionReportDialogProps) => (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+        <div className="w-full max-w-lg max-h-[80vh] flex flex-col bg-neutral-900 border border-neutral-800 rounded-2xl p-6 gap-5" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-medium text-neutral-100">{listProps.t.reportTitle}</h2>
+                <button onClick={onClose} className="p-1 text-neutral-400 hover:text-white transition-colors" title={listProps.t.close}>
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+            <div className="overflow-y-auto">
+                <ExtractionReportList {...listProps} />
+            </div>
+        </div>
+    </div>
+);
+
+// 83.45 -> "1:23.4"
+const formatClock = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+interface TimelineProps {
+  sources: VideoSource[];
+  source: VideoSource;
+  frames: PortfolioFrame[];   // Visible frames of `source`
+  isBusy: boolean;
+  onSourceChange: (id: string) => void;
+  onOpenFrame: (frame: PortfolioFrame) => void;
+  onCapture: (source: VideoSource, time: number) => void;
+  t: Record<string, string>;
+}
+
+// Where the extracted frames sit in the video, with a scrub preview to capture any other moment
+const Timeline = ({ sources, source, frames, isBusy, onSourceChange, onOpenFrame, onCapture, t }: TimelineProps) => {
+    const [time, setTime] = useState(0);
+    const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+    const [videoUrl, setVideoUrl] = useState<string | null>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const barRef = useRef<HTMLDivElement>(null);
+    const duration = source.duration ?? 0;
+
+    // The player only holds an object URL while the preview is open
+    useEffect(() => {
+        if (!isPreviewOpen) return;
+        const url = URL.createObjectURL(source.file);
+        setVideoUrl(url);
+        return () => {
+            URL.revokeObjectURL(url);
+            setVideoUrl(null);
+        };
+    }, [source.file, isPreviewOpen]);
+
+    useEffect(() => {
+        setTime(0);
+    }, [source.id]);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (video && Math.abs(video.currentTime - time) > 0.001) video.currentTime = time;
+    }, [time, videoUrl]);
+
+    const scrubTo = (clientX: number) => {
+        const rect = barRef.current?.getBoundingClientRect();
+        if (!rect || !duration) return;
+        setTime(clamp((clientX - rect.left) / rect.width, 0, 1) * duration);
+        setIsPreviewOpen(true);
+    };
+
+    return (
+        <div className="px-4 md:px-6 py-3 border-b border-neutral-800/60 space-y-3 text-sm text-neutral-400">
+            <div className="flex items-center gap-3">
+                {sources.length > 1 ? (
+                    <select
+                        value={source.id}
+                        onChange={(e) => onSourceChange(e.target.value)}
+                        className="max-w-[10rem] bg-neutral-900 text-neutral-200 border border-neutral-800 rounded-md px-2 py-1 outline-none"
+                    >
+                        {sources.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                ) : (
+                    <span className="whitespace-nowrap">{t.timeline}</span>
+                )}
+                <div
+                    ref={barRef}
+                    className="relative flex-1 h-8 rounded-md bg-neutral-900 border border-neutral-800 cursor-pointer select-none touch-none"
+                    onPointerDown={(e) => {
+                        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+                        scrubTo(e.clientX);
+                    }}
+                    onPointerMove={(e) => {
+                        if (e.buttons & 1) scrubTo(e.clientX);
+                    }}
+                >
+                    {duration > 0 && frames.map(frame => (
+                        <button
+                            key={frame.id}
+                            className="absolute top-0 bottom-0 w-2 -translate-x-1/2 flex justify-center group/marker"
+                            style={{ left: `${(frame.timestamp / duration) * 100}%` }}
+                            onPointerDown={(e) => e.stopPropagation()}
+                            onClick={() => onOpenFrame(frame)}
+                            title={formatClock(frame.timestamp)}
+                        >
+                            <span className={`w-0.5 rounded-full transition-colors ${frame.selected ? 'h-full bg-white' : 'h-1/2 self-center bg-neutral-600 group-hover/marker:bg-neutral-300'}`} />
+                        </button>
+                    ))}
+                    {isPreviewOpen && duration > 0 && (
+                        <div className="absolute -top-1 -bottom-1 w-0.5 bg-blue-500 pointer-events-none" style={{ left: `${(time / duration) * 100}%` }} />
+                    )}
+                </div>
+                <span className="w-24 text-end font-mono whitespace-nowrap">{formatClock(isPreviewOpen ? time : duration)}</span>
+            </div>
+
+            {isPreviewOpen && (
+                <div className="flex items-end gap-3">
+                    <video
+                        ref={videoRef}
+                        src={videoUrl ?? undefined}
+                        muted
+                        playsInline
+                        preload="auto"
+                        className="h-36 max-w-[60%] rounded-md bg-black"
+                    />
+                    <div className="flex flex-col gap-2">
+                        <button
+                            onClick={() => onCapture(source, time)}
+                            disabled={isBusy}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-medium bg-white text-black hover:bg-neutral-200 disabled:opacity-50 transition-colors"
+                        >
+                            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+                            <span>{t.captureFrame}</span>
+                        </button>
+                        <button
+                            onClick={() => setIsPreviewOpen(false)}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-neutral-300 bg-neutral-800 hover:bg-neutral-700 transition-colors"
+                        >
+                            <X className="w-4 h-4" />
+                            <span>{t.close}</span>
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// --- Trimming ---
+
+// A stretch of a source video, in seconds
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// Anything shorter is treated as a stray mark rather than a segment
+const MIN_SEGMENT_SECONDS = 0.1;
+
+// Clamps ranges to the video, drops empty ones and merges any that overlap, in time order
+const normalizeRanges = (ranges: TimeRange[], duration: number): TimeRange[] => {
+    const merged: TimeRange[] = [];
+    ranges
+        .map(r => ({ start: clamp(Math.min(r.start, r.end), 0, duration), end: clamp(Math.max(r.start, r.end), 0, duration) }))
+        .filter(r => r.end - r.start >= MIN_SEGMENT_SECONDS)
+        .sort((a, b) => a.start - b.start)
+        .forEach(r => {
+            const last = merged[merged.length - 1];
+            if (last && r.start <= last.end) last.end = Math.max(last.end, r.end);
+            else merged.push(r);
+        });
+    return merged;
+};
+
+const rangesLength = (ranges: TimeRange[]) => ranges.reduce((sum, r) => sum + r.end - r.start, 0);
+
+// Seconds a video will be scanned for: its segments, or the whole video when it has none
+const selectedLength = (source: VideoSource) =>
+    source.segments?.length ? rangesLength(source.segments) : source.duration;
+
+interface SegmentPickerProps {
+  sources: VideoSource[];
+  onUpdate: (id: string, changes: Partial<VideoSource>) => void;
+  onStart: () => void;
+  onCancel: () => void;
+  locale: string;
+  t: Record<string, string>;
+}
+
+// Pre-extraction step: mark the stretches of each video worth extracting. I and O set the in and out
+// points; setting an out point after an in point adds the segment. Videos left without segments are extracted whole.
+const SegmentPicker = ({ sources, onUpdate, onStart, onCancel, locale, t }: SegmentPickerProps) => {
+    const [activeId, setActiveId] = useState(sources[0].id);
+    const [videoUrl, setVideoUrl] = useState<string | null>(null);
+    const [time, setTime] = useState(0);
+    const [markIn, setMarkIn] = useState<number | null>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const barRef = useRef<HTMLDivElement>(null);
+    const source = sources.find(s => s.id === activeId) ?? sources[0];
+    const duration = source.duration ?? 0;
+    const segments = source.segments ?? [];
+
+    useEffect(() => {
+        const url = URL.createObjectURL(source.file);
+        setVideoUrl(url);
+        setTime(0);
+        setMarkIn(null);
+        return () => URL.revokeObjectURL(url);
+    }, [source.file]);
+
+    const seek = (seconds: number) => {
+        if (videoRef.current) videoRef.current.currentTime = seconds;
+        setTime(seconds);
+    };
+
+    const scrubTo = (clientX: number) => {
+        const rect = barRef.current?.getBoundingClientRect();
+        if (!rect || !duration) return;
+        seek(clamp((clientX - rect.left) / rect.width, 0, 1) * duration);
+    };
+
+    const setSegments = (next: TimeRange[]) => onUpdate(source.id, { segments: normalizeRanges(next, duration) });
+
+    const markOut = () => {
+        setSegments([...segments, { start: markIn ?? 0, end: time }]);
+        setMarkIn(null);
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey || e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+            if (e.key === 'i') setMarkIn(time);
+            else if (e.key === 'o') markOut();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    const total = sources.reduce((sum, s) => sum + (selectedLength(s) ?? 0), 0);
+    const percent = (seconds: number) => `${duration ? (seconds / duration) * 100 : 0}%`;
+
+    return (
+        <div className="min-h-screen bg-neutral-950 text-white flex flex-col items-center justify-center p-6">
+            <div className="max-w-3xl w-full space-y-5 text-sm">
+                <div className="flex items-center justify-between gap-4">
+                    <h2 className="text-2xl font-light text-neutral-100">{t.trimTitle}</h2>
+                    {sources.length > 1 && (
+                        <select
+                            value={source.id}
+                            onChange={(e) => setActiveId(e.target.value)}
+                            className="max-w-[14rem] bg-neutral-900 text-neutral-200 border border-neutral-800 rounded-md px-2 py-1 outline-none"
+                        >
+                            {sources.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                    )}
+                </div>
+                <p className="text-neutral-500">{t.trimHint}</p>
+
+                <video
+                    ref={videoRef}
+                    src={videoUrl ?? undefined}
+                    controls
+                    muted
+                    playsInline
+                    preload="auto"
+                    className="w-full max-h-[50vh] rounded-lg bg-black"
+                    onLoadedMetadata={(e) => {
+                        const seconds = e.currentTarget.duration;
+                        if (Number.isFinite(seconds) && seconds > 0) onUpdate(source.id, { duration: seconds });
+                    }}
+                    onTimeUpdate={(e) => setTime(e.currentTarget.currentTime)}
+                />
+
+                {/* Like other playback controls, the range bar keeps its left-to-right time axis in RTL layouts */}
+                <div
+                    dir="ltr"
+                    ref={barRef}
+                    className="relative h-8 rounded-md bg-neutral-900 border border-neutral-800 cursor-pointer select-none touch-none overflow-hidden"
+                    onPointerDown={(e) => {
+                        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+                        scrubTo(e.clientX);
+                    }}
+                    onPointerMove={(e) => {
+                        if (e.buttons & 1) scrubTo(e.clientX);
+                    }}
+                >
+                    {segments.map(segment => (
+                        <div
+                            key={segment.start}
+                            className="absolute top-0 bottom-0 bg-blue-500/40 border-x border-blue-400 pointer-events-none"
+                            style={{ left: percent(segment.start), width: percent(segment.end - segment.start) }}
+                        />
+                    ))}
+                    {markIn !== null && (
+                        <div
+                            className="absolute top-0 bottom-0 bg-white/15 border-l border-white/60 pointer-events-none"
+                            style={{ left: percent(Math.min(markIn, time)), width: percent(Math.abs(time - markIn)) }}
+                        />
+                    )}
+                    <div className="absolute -top-1 -bottom-1 w-0.5 bg-white pointer-events-none" style={{ left: percent(time) }} />
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <button
+                        onClick={() => setMarkIn(time)}
+                        className={`px-3 py-1.5 rounded-lg font-medium transition-colors ${markIn !== null ? 'bg-white text-black' : 'text-neutral-300 bg-neutral-800 hover:bg-neutral-700'}`}
+                    >
+                        {t.markIn} (I)
+                    </button>
+                    <button
+                        onClick={markOut}
+                        disabled={!duration || time - (markIn ?? 0) < MIN_SEGMENT_SECONDS}
+                        className="px-3 py-1.5 rounded-lg font-medium text-neutral-300 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40 transition-colors"
+                    >
+                        {t.markOut} (O)
+                    </button>
+                    <span className="ms-auto font-mono text-neutral-400">{formatClock(time)} / {formatClock(duration)}</span>
+                </div>
+
+                <ul className="space-y-1.5 max-h-48 overflow-y-auto">
+                    {segments.length === 0 && <li className="text-neutral-500">{t.trimWhole}</li>}
+                    {segments.map((segment, i) => (
+                        <li key={segment.start} className="flex items-center gap-3 text-neutral-300">
+                            <span className="w-6 text-neutral-500 font-mono">{i + 1}</span>
+                            <button onClick={() => seek(segment.start)} className="font-mono hover:text-white transition-colors" dir="ltr">
+                                {formatClock(segment.start)} – {formatClock(segment.end)}
+                            </button>
+                            <span className="text-neutral-500">{formatClock(segment.end - segment.start)}</span>
+                            <button
+                                onClick={() => setSegments(segments.filter(s => s !== segment))}
+                                className="ms-auto p-1 rounded text-neutral-500 hover:text-red-400 transition-colors"
+                                title={t.removeSegment}
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+
+                <div className="flex items-center justify-between gap-3 pt-2 border-t border-neutral-800">
+                    <span className="text-neutral-400">{formatMessage(t.trimTotal, { time: total, count: sources.length }, locale)}</span>
+                    <div className="flex items-center gap-2">
+                        <button onClick={onCancel} className="px-4 py-2 rounded-lg font-medium text-neutral-300 bg-neutral-800 hover:bg-neutral-700 transition-colors">
+                            {t.cancel}
+                        </button>
+                        <button onClick={onStart} className="px-4 py-2 rounded-lg font-medium bg-white text-black hover:bg-neutral-200 transition-colors">
+                            {t.startExtraction}
+                        </button>
+                    </div>
+                </div>
             </div>
         </div>
     );
 };
 
-const TRANSLATIONS: Record<Language, Record<string, string>> = {
-  en: {
-    tagline: "Video to Photos. Extract high-fidelity stills from your videos. In seconds.",
-    dragDrop: "Drag and drop your video",
-    browse: "or click this box to browse (MP4, MOV, WebM)",
-    processing: "Analyzing Video & Extracting Stills",
-    complete: "Complete",
-    curatorTitle: "Portfolio Curator",
-    selectedCount: "selected",
-    framesLeft: "exported",
-    selectAll: "Select All",
-    deselectAll: "Deselect All",
-    startOver: "Start Over",
-    downloadSelected: "Download Selected",
-    download: "Download",
-    zipping: "Zipping...",
-    deleteFrame: "Delete frame",
-    close: "Close",
-    statusSelected: "Selected",
-    actionSelect: "Select",
-    prevFrame: "Previous frame",
-    nextFrame: "Next frame",
-    errMetadata: "Could not load video metadata. The file might be corrupt or unsupported.",
-    errCanvas: "Could not initialize canvas for frame extraction.",
-    errGeneral: "An error occurred while processing the video. Some frames might be missing.",
-    errInvalid: "Please upload a valid video file.",
-    errNoSel: "No frames selected for download.",
-    errZip: "Could not create zip file for download.",
-    warnBadVideo: "Doesn't seem like this video has good photos. Want to try a different video?",
-    contribPre: "Contribute to the development by",
-    contribLink: "giving feedback",
-    developedBy: "Developed by BringEZBack @ 2025."
-  },
-  zh: {
-    tagline: "视频转作品集。几秒钟内从您的视频中提取高保真静帧。",
-    dragDrop: "将视频拖放到此处",
-    browse: "或点击浏览 (MP4, MOV, WebM)",
-    processing: "正在分析视频并提取静帧",
-    complete: "完成",
-    curatorTitle: "作品集精选",
-    selectedCount: "已选择",
-    framesLeft: "选择",
-    selectAll: "全选",
-    deselectAll: "取消全选",
-    startOver: "重新开始",
-    downloadSelected: "下载选中项",
-    download: "下载",
-    zipping: "正在压缩...",
-    deleteFrame: "删除帧",
-    close: "关闭",
-    statusSelected: "已选择",
-    actionSelect: "选择",
-    prevFrame: "上一帧",
-    nextFrame: "下一帧",
-    errMetadata: "无法加载视频元数据。文件可能已损坏或不受支持。",
-    errCanvas: "无法初始化画布以进行帧提取。",
-    errGeneral: "处理视频时发生错误。可能会丢失某些帧。",
-    errInvalid: "请上传有效的视频文件。",
-    errNoSel: "未选择要下载的帧。",
-    errZip: "无法创建压缩文件以供下载。",
-    warnBadVideo: "此视频似乎没有好的静帧。要尝试其他视频吗？",
-    contribPre: "帮助我们改进，请",
-    contribLink: "提供反馈",
-    developedBy: "由 BringEZBack 开发 @ 2025."
-  },
-  fr: {
-    tagline: "Vidéo vers Portfolio. Extrayez des images haute fidélité de vos vidéos. En quelques secondes.",
-    dragDrop: "Glissez-déposez votre vidéo ici",
-    browse: "ou cliquez pour parcourir (MP4, MOV, WebM)",
-    processing: "Analyse de la vidéo et extraction des images",
-    complete: "Terminé",
-    curatorTitle: "Curateur de Portfolio",
-    selectedCount: "sélectionnés",
-    framesLeft: "restants",
-    selectAll: "Tout sélectionner",
-    deselectAll: "Tout désélectionner",
-    startOver: "Recommencer",
-    downloadSelected: "Télécharger la sélection",
-    download: "Télécharger",
-    zipping: "Compression...",
-    deleteFrame: "Supprimer l'image",
-    close: "Fermer",
-    statusSelected: "Sélectionné",
-    actionSelect: "Sélectionner",
-    prevFrame: "Image précédente",
-    nextFrame: "Image suivante",
-    errMetadata: "Impossible de charger les métadonnées vidéo. Le fichier est peut-être corrompu ou non pris en charge.",
-    errCanvas: "Impossible d'initialiser le canevas pour l'extraction d'images.",
-    errGeneral: "Une erreur s'est produite lors du traitement de la vidéo. Certaines images peuvent manquer.",
-    errInvalid: "Veuillez télécharger un fichier vidéo valide.",
-    errNoSel: "Aucune image sélectionnée pour le téléchargement.",
-    errZip: "Impossible de créer le fichier zip pour le téléchargement.",
-    warnBadVideo: "Il semble que cette vidéo n'ait pas de bonnes photos. Voulez-vous essayer une autre vidéo ?",
-    contribPre: "Contribuez au développement en",
-    contribLink: "donnant votre avis",
-    developedBy: "Développé par BringEZBack @ 2025."
-  },
-  de: {
-    tagline: "Video zum Fotos. Machen Sie hochauflösende Standbilder aus Ihren Videos. In Sekunden.",
-    dragDrop: "Ziehen Sie Ihr Video hierher",
-    browse: "oder klicken Sie, um das Feld zum Durchsuchen (MP4, MOV, WebM)",
-    processing: "Video analysieren & Standbilder machen",
-    complete: "Abgeschlossen",
-    curatorTitle: "Portfolio-Kurator",
-    selectedCount: "ausgewählt",
-    framesLeft: "übrig",
-    selectAll: "Alles auswählen",
-    deselectAll: "Alles abwählen",
-    startOver: "Neu starten",
-    downloadSelected: "Auswahl herunterladen",
-    download: "Herunterladen",
-    zipping: "Zippen...",
-    deleteFrame: "Frame löschen",
-    close: "Schließen",
-    statusSelected: "Ausgewählt",
-    actionSelect: "Auswählen",
-    prevFrame: "Vorheriger Frame",
-    nextFrame: "Nächster Frame",
-    errMetadata: "Video-Metadaten konnten nicht geladen werden. Die Datei ist möglicherweise beschädigt oder wird nicht unterstützt.",
-    errCanvas: "Canvas für Frame-Extraktion konnte nicht initialisiert werden.",
-    errGeneral: "Beim Verarbeiten des Videos ist ein Fehler aufgetreten. Einige Frames fehlen möglicherweise.",
-    errInvalid: "Bitte laden Sie eine gültige Videodatei hoch.",
-    errNoSel: "Keine Frames zum Herunterladen ausgewählt.",
-    errZip: "Zip-Datei für den Download konnte nicht erstellt werden.",
-    warnBadVideo: "Es scheint, als hätte dieses Video keine guten Fotos. Möchten Sie ein anderes Video ausprobieren?",
-    contribPre: "Tragen Sie zur Entwicklung bei, indem Sie",
-    contribLink: "Feedback geben",
-    developedBy: "Entwickelt von BringEZBack @ 2025."
-  },
-  es: {
-    tagline: "Video a Portafolio. Extrae imágenes de alta fidelidad de tus videos. En segundos.",
-    dragDrop: "Arrastra y suelta tu video aquí",
-    browse: "o haz clic para buscar (MP4, MOV, WebM)",
-    processing: "Analizando video y extrayendo imágenes",
-    complete: "Completado",
-    curatorTitle: "Curador de Portafolio",
-    selectedCount: "seleccionados",
-    framesLeft: "restantes",
-    selectAll: "Seleccionar todo",
-    deselectAll: "Deseleccionar todo",
-    startOver: "Empezar de nuevo",
-    downloadSelected: "Descargar selección",
-    download: "Descargar",
-    zipping: "Comprimiendo...",
-    deleteFrame: "Eliminar fotograma",
-    close: "Cerrar",
-    statusSelected: "Seleccionado",
-    actionSelect: "Seleccionar",
-    prevFrame: "Fotograma anterior",
-    nextFrame: "Fotograma siguiente",
-    errMetadata: "No se pudieron cargar los metadatos del video. El archivo podría estar corrupto o no ser compatible.",
-    errCanvas: "No se pudo inicializar el lienzo para la extracción de fotogramas.",
-    errGeneral: "Ocurrió un error al procesar el video. Podrían faltar algunos fotogramas.",
-    errInvalid: "Por favor, sube un archivo de video válido.",
-    errNoSel: "No hay fotogramas seleccionados para descargar.",
-    errZip: "No se pudo crear el archivo zip para la descarga.",
-    warnBadVideo: "Parece que este video no tiene buenas fotos. ¿Quieres probar con otro video?",
-    contribPre: "Contribuye al desarrollo",
-    contribLink: "dando tu opinión",
-    developedBy: "Desarrollado por BringEZBack @ 2025."
-  }
+// --- Localization ---
+
+// UI strings live in locales/<lang>.json. English is always loaded and fills in any key a locale lacks.
+// Messages use a subset of ICU syntax: {name}, {n, number}, {s, time} (a media position in seconds),
+// {n, plural, =0 {...} one {# ...} other {# ...}} and {v, select, a {...} other {...}}.
+type Messages = Record<string, string>;
+type MessageValues = Record<string, string | number>;
+
+const LANGUAGES: Record<Language, { name: string; dir: 'ltr' | 'rtl' }> = {
+  en: { name: 'English', dir: 'ltr' },
+  zh: { name: '简体中文', dir: 'ltr' },
+  ja: { name: '日本語', dir: 'ltr' },
+  ko: { name: '한국어', dir: 'ltr' },
+  fr: { name: 'Français', dir: 'ltr' },
+  de: { name: 'Deutsch', dir: 'ltr' },
+  es: { name: 'Español', dir: 'ltr' },
+  pt: { name: 'Português', dir: 'ltr' },
+  ar: { name: 'العربية', dir: 'rtl' }
+};
+
+const LANGUAGE_STORAGE_KEY = 'folio-language';
+
+const loadedMessages = new Map<Language, Messages>();
+const pendingMessages = new Map<Language, Promise<Messages>>();
+
+const loadMessages = (lang: Language): Promise<Messages> => {
+    let pending = pendingMessages.get(lang);
+    if (!pending) {
+        pending = fetch(new URL(`./locales/${lang}.json`, document.baseURI))
+            .then(res => {
+                if (!res.ok) throw new Error(`locales/${lang}.json: HTTP ${res.status}`);
+                return res.json() as Promise<Messages>;
+            })
+            .then(messages => {
+                loadedMessages.set(lang, messages);
+                return messages;
+            });
+        // Forget failures so a later attempt can retry the fetch
+        pending.catch(() => pendingMessages.delete(lang));
+        pendingMessages.set(lang, pending);
+    }
+    return pending;
+};
+
+const getMessages = (lang: Language): Messages => ({ ...loadedMessages.get('en'), ...loadedMessages.get(lang) });
+
+// ("{n, plural, one {# frame} other {# frames}}", { n: 3 }, 'en') -> "3 frames"
+const formatMessage = (template: string, values: MessageValues, locale: string): string => {
+    const numbers = new Intl.NumberFormat(locale);
+    const seconds = new Intl.NumberFormat(locale, { minimumIntegerDigits: 2, minimumFractionDigits: 1, maximumFractionDigits: 1, useGrouping: false });
+    let pos = 0;
+
+    const skipSpace = () => {
+        while (/\s/.test(template[pos] ?? '')) pos++;
+    };
+    const readWord = () => {
+        skipSpace();
+        const start = pos;
+        while (pos < template.length && !/[\s,{}]/.test(template[pos])) pos++;
+        return template.slice(start, pos);
+    };
+    const expect = (ch: string) => {
+        skipSpace();
+        if (template[pos] !== ch) throw new Error(`Expected "${ch}" at ${pos} in "${template}"`);
+        pos++;
+    };
+
+    // `pound` is the value "#" stands for inside a plural branch
+    const parseText = (pound: number | null): string => {
+        let out = '';
+        while (pos < template.length && template[pos] !== '}') {
+            const ch = template[pos];
+            if (ch === '{') {
+                pos++;
+                out += parseArgument(pound);
+            } else if (ch === '#' && pound !== null) {
+                pos++;
+                out += numbers.format(pound);
+            } else {
+                out += ch;
+                pos++;
+            }
+        }
+        return out;
+    };
+
+    const parseArgument = (pound: number | null): string => {
+        const name = readWord();
+        const value = values[name];
+        skipSpace();
+        if (template[pos] === '}') {
+            pos++;
+            if (value === undefined) return `{${name}}`;
+            return typeof value === 'number' ? numbers.format(value) : value;
+        }
+        expect(',');
+        const type = readWord();
+        if (type === 'number' || type === 'time') {
+            expect('}');
+            const n = Number(value);
+            if (type === 'number') return numbers.format(n);
+            return `${numbers.format(Math.floor(n / 60))}:${seconds.format(n % 60)}`;
+        }
+        if (type !== 'plural' && type !== 'select') throw new Error(`Unknown argument type "${type}" in "${template}"`);
+        expect(',');
+        const n = Number(value);
+        const branches = new Map<string, string>();
+        skipSpace();
+        while (pos < template.length && template[pos] !== '}') {
+            const selector = readWord();
+            expect('{');
+            branches.set(selector, parseText(type === 'plural' ? n : pound));
+            expect('}');
+            skipSpace();
+        }
+        expect('}');
+        const key = type === 'plural'
+            ? (branches.has(`=${n}`) ? `=${n}` : new Intl.PluralRules(locale).select(n))
+            : String(value);
+        return branches.get(key) ?? branches.get('other') ?? '';
+    };
+
+    try {
+        const out = parseText(null);
+        if (pos < template.length) throw new Error(`Unbalanced "}" at ${pos} in "${template}"`);
+        return out;
+    } catch (err) {
+        console.error(err);
+        return template;
+    }
 };
 
 const getInitialLanguage = (): Language => {
-    const browserLang = navigator.language.split('-')[0];
-    if (browserLang === 'zh' || browserLang === 'fr' || browserLang === 'de' || browserLang === 'es') {
-        return browserLang;
+    const languages = Object.keys(LANGUAGES) as Language[];
+    try {
+        const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY) as Language | null;
+        if (stored && languages.includes(stored)) return stored;
+    } catch {
+        // Storage can be unavailable (e.g. blocked cookies); fall back to the browser languages
+    }
+    for (const tag of navigator.languages ?? [navigator.language]) {
+        const lang = tag.split('-')[0].toLowerCase() as Language;
+        if (languages.includes(lang)) return lang;
     }
     return 'en';
 };
@@ -209,38 +5103,125 @@ const getInitialLanguage = (): Language => {
 interface LanguageSelectProps {
   currentLang: Language;
   onLanguageChange: (lang: Language) => void;
+  label: string;
 }
 
-const LanguageSelect = ({ currentLang, onLanguageChange }: LanguageSelectProps) => (
-    <div className="flex items-center space-x-2 bg-neutral-900/80 rounded-full px-3 py-1 border border-neutral-800 hover:border-neutral-700 transition-colors">
+const LanguageSelect = ({ currentLang, onLanguageChange, label }: LanguageSelectProps) => (
+    <div className="flex items-center gap-2 bg-neutral-900/80 rounded-full px-3 py-1 border border-neutral-800 hover:border-neutral-700 transition-colors">
         <Globe className="w-4 h-4 text-neutral-400" />
         <select
             value={currentLang}
             onChange={(e) => onLanguageChange(e.target.value as Language)}
-            className="bg-transparent text-sm text-neutral-300 outline-none cursor-pointer appearance-none pr-2"
-            aria-label="Select Language"
+            className="bg-transparent text-sm text-neutral-300 outline-none cursor-pointer appearance-none pe-2"
+            aria-label={label}
         >
-            <option value="en">English</option>
-            <option value="zh">简体中文</option>
-            <option value="fr">Français</option>
-            <option value="de">Deutsch</option>
-            <option value="es">Español</option>
+            {(Object.keys(LANGUAGES) as Language[]).map(lang => (
+                <option key={lang} value={lang}>{LANGUAGES[lang].name}</option>
+            ))}
         </select>
     </div>
 );
 
-const App = () => {
-  const [videoFile, setVideoFile] = useState<File | null>(null);
+interface AppProps {
+  initialLang: Language;
+}
+
+const App = ({ initialLang }: AppProps) => {
+  const [sources, setSources] = useState<VideoSource[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
   const [frames, setFrames] = useState<PortfolioFrame[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [isZipping, setIsZipping] = useState(false);
   const [expandedFrame, setExpandedFrame] = useState<PortfolioFrame | null>(null);
-  const [currentLang, setCurrentLang] = useState<Language>(getInitialLanguage);
+  const [currentLang, setCurrentLang] = useState<Language>(initialLang);
   const [framepSecond, setFramepSecond] = useState(1);
+  const [extractionMode, setExtractionMode] = useState<ExtractionMode>('interval');
+  // Whether dropped videos go through the segment picker before extraction
+  const [trimBeforeExtract, setTrimBeforeExtract] = useState(false);
+  const [isTrimming, setIsTrimming] = useState(false);
+  const [sceneSensitivity, setSceneSensitivity] = useState(50);
+  const [minQuality, setMinQuality] = useState(0);
+  const [showHidden, setShowHidden] = useState(false);
+  const [groupSimilar, setGroupSimilar] = useState(false);
+  const [groupDistance, setGroupDistance] = useState(DEFAULT_GROUP_DISTANCE);
+  const [openGroups, setOpenGroups] = useState<Set<string>>(new Set());
+  const [sortMode, setSortMode] = useState<FrameSortMode>('time');
+  const [facesOnly, setFacesOnly] = useState(false);
+  const [ratingFilter, setRatingFilter] = useState(0);  // Minimum stars shown; 0 shows unrated frames too
+  const [labelFilter, setLabelFilter] = useState<ColorLabel | null>(null);
+  const [hideRejected, setHideRejected] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
+  const [faceProgress, setFaceProgress] = useState<{ done: number; total: number } | null>(null);
+  const [showFaceBoxes, setShowFaceBoxes] = useState(true);
+  const [editTool, setEditTool] = useState<'crop' | 'adjust' | 'clip' | null>(null);
+  const [clipSettings, setClipSettings] = useState<ClipSettings>(DEFAULT_CLIP_SETTINGS);
+  const [stepPreview, setStepPreview] = useState<(CapturedStill & { time: number; url: string }) | null>(null);
+  const [isStepping, setIsStepping] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [stackSize, setStackSize] = useState(DEFAULT_STACK_SIZE);
+  const [stackMode, setStackMode] = useState<StackMode>('median');
+  const [timelineSourceId, setTimelineSourceId] = useState<string | null>(null);
+  const sourceVideoRef = useRef<{ sourceId: string; video: HTMLVideoElement } | null>(null);
+  // The session being autosaved, and what of it is already on disk
+  const sessionRef = useRef<{ id: string; createdAt: number; stored: StoredState } | null>(null);
+  const saveTimerRef = useRef<number | null>(null);
+  const pendingSaveRef = useRef<{ frames: PortfolioFrame[]; sources: VideoSource[]; settings: SessionSettings } | null>(null);
+  // Latest preview render per frame id; older renders still in flight are dropped
+  const previewTokensRef = useRef(new Map<string, object>());
+  const [isPaused, setIsPaused] = useState(false);
+  const [galleryLayout, setGalleryLayout] = useState<GalleryLayout>('byVideo');
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [supportedFormats, setSupportedFormats] = useState<ExportFormat[]>(['jpeg', 'png']);
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isSheetOpen, setIsSheetOpen] = useState(false);
+  const [sheetSettings, setSheetSettings] = useState<ContactSheetSettings>(DEFAULT_CONTACT_SHEET_SETTINGS);
+  const [isRenderingSheet, setIsRenderingSheet] = useState(false);
+  const [storedSessions, setStoredSessions] = useState<StoredSession[]>([]);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+
+  // Controls for the extraction run in progress (kept in a ref so the running loop sees changes immediately)
+  const runRef = useRef<{ controller: AbortController; paused: boolean } | null>(null);
+
+  const t = useMemo(() => getMessages(currentLang), [currentLang]);
+
+  // Switch only once the locale file has arrived so the UI never shows a half-loaded language
+  const changeLanguage = (lang: Language) => {
+    loadMessages(lang)
+      .then(() => {
+        setCurrentLang(lang);
+        try {
+          localStorage.setItem(LANGUAGE_STORAGE_KEY, lang);
+        } catch {
+          // Not persisted; the browser language applies next time
+        }
+      })
+      .catch(err => {
+        console.error(err);
+        notify('error', t.errLanguage);
+      });
+  };
 
-  const t = TRANSLATIONS[currentLang];
+  useEffect(() => {
+    document.documentElement.lang = currentLang;
+    document.documentElement.dir = LANGUAGES[currentLang].dir;
+  }, [currentLang]);
+
+  // --- Notifications ---
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const toastIdRef = useRef(0);
+
+  const dismissToast = (id: number) => setToasts(prev => prev.filter(toast => toast.id !== id));
+
+  const notify = (tone: ToastTone, message: string, action?: Toast['action']) => {
+      const id = ++toastIdRef.current;
+      setToasts(prev => [...prev.slice(-(MAX_TOASTS - 1)), { id, tone, message, action }]);
+      window.setTimeout(() => dismissToast(id), TOAST_DURATION_MS[tone]);
+  };
+
+  const viewReportAction = () => ({ label: t.viewReport, run: () => setIsReportOpen(true) });
 
   // --- ADD THIS HANDLER ---
   const handleFpsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -253,45 +5234,184 @@ const App = () => {
       framesRef.current = frames;
   }, [frames]);
 
+  // --- History ---
+  // Curation actions go through commitFrames so they can be undone; extraction and derived state (previews, faces) don't
+
+  const historyRef = useRef<{ past: FrameChange[][]; future: FrameChange[][] }>({ past: [], future: [] });
+  const [historyDepth, setHistoryDepth] = useState({ undo: 0, redo: 0 });
+  const syncHistory = () => setHistoryDepth({ undo: historyRef.current.past.length, redo: historyRef.current.future.length });
+
+  const commitFrames = (update: (frames: PortfolioFrame[]) => PortfolioFrame[]) => {
+      const changes = diffFrames(framesRef.current, update(framesRef.current));
+      if (changes.length === 0) return;
+      historyRef.current = { past: [...historyRef.current.past, changes].slice(-HISTORY_LIMIT), future: [] };
+      // Later commits from the same event build on this one
+      framesRef.current = applyFrameChanges(framesRef.current, changes, 'after');
+      setFrames(prev => applyFrameChanges(prev, changes, 'after'));
+      syncHistory();
+  };
+
+  const clearHistory = () => {
+      historyRef.current = { past: [], future: [] };
+      syncHistory();
+  };
+
+  const stepHistory = (direction: 'undo' | 'redo') => {
+      const { past, future } = historyRef.current;
+      const changes = direction === 'undo' ? past[past.length - 1] : future[future.length - 1];
+      if (!changes) return;
+      historyRef.current = direction === 'undo'
+          ? { past: past.slice(0, -1), future: [...future, changes] }
+          : { past: [...past, changes], future: future.slice(0, -1) };
+
+      const side = direction === 'undo' ? 'before' : 'after';
+      const current = new Map(framesRef.current.map(f => [f.id, f]));
+      framesRef.current = applyFrameChanges(framesRef.current, changes, side);
+      setFrames(prev => applyFrameChanges(prev, changes, side));
+      const targets = new Map(changes.map(c => [c.id, c[side]]));
+      setExpandedFrame(prev => prev && targets.has(prev.id) ? targets.get(prev.id) ?? null : prev);
+      // Previews are rendered after an edit is recorded, so a restored frame may carry the preview of other edits
+      changes.forEach(({ id, [side]: target }) => {
+          const now = current.get(id);
+          if (target && now && (now.crop !== target.crop || now.adjustments !== target.adjustments)) renderPreview(target);
+      });
+      syncHistory();
+  };
+
+  // Every frame version the undo/redo history can bring back
+  const historyFrames = () => [...historyRef.current.past, ...historyRef.current.future]
+      .flatMap(changes => changes.flatMap(c => [c.before, c.after]))
+      .filter((f): f is PortfolioFrame => f !== null);
+
+  // Object URLs are revoked, and spilled stills deleted from disk, once neither the gallery,
+  // the open frame nor the history refers to them
+  const liveUrlsRef = useRef(new Set<string>());
+  useEffect(() => {
+      const live = new Set<string>();
+      const liveStills = new Set<Blob>();
+      [...frames, ...(expandedFrame ? [expandedFrame] : []), ...historyFrames()].forEach(frame => {
+          frameUrls(frame).forEach(url => live.add(url));
+          liveStills.add(frame.blob);
+      });
+      liveUrlsRef.current.forEach(url => { if (!live.has(url)) URL.revokeObjectURL(url); });
+      liveUrlsRef.current = live;
+      spillKeysRef.current.forEach((key, still) => {
+          if (liveStills.has(still)) return;
+          spillKeysRef.current.delete(still);
+          openSpillStore()
+              .then(store => store?.remove(key))
+              .catch(e => console.warn("Could not delete a spilled frame:", e));
+      });
+  }, [frames, expandedFrame, historyDepth]);
+
+  // --- Frame Storage ---
+  // Once the stills the gallery and the history hold outgrow the memory budget, the oldest move to disk
+
+  const [memoryBudget, setMemoryBudget] = useState(getInitialMemoryBudget); // MB
+  const spillKeysRef = useRef(new Map<Blob, string>()); // Disk copy -> its key in the spill store
+  const nextSpillKeyRef = useRef(0);
+  const isSpillingRef = useRef(false);
+  const spillUnavailableRef = useRef(false);
+
+  const changeMemoryBudget = (budget: number) => {
+      setMemoryBudget(budget);
+      try {
+          localStorage.setItem(MEMORY_BUDGET_STORAGE_KEY, String(budget));
+      } catch {
+          // Storage can be unavailable; the budget then only lasts for this visit
+      }
+  };
+
+  // Points every frame version that holds one of the spilled stills at its disk copy
+  const swapStills = (copies: Map<Blob, Blob>) => {
+      if (copies.size === 0) return;
+      const swap = (frame: PortfolioFrame) => {
+          const copy = copies.get(frame.blob);
+          return copy ? { ...frame, blob: copy } : frame;
+      };
+      const swapChanges = (changes: FrameChange[]) =>
+          changes.map(c => ({ ...c, before: c.before && swap(c.before), after: c.after && swap(c.after) }));
+      framesRef.current = framesRef.current.map(swap);
+      setFrames(prev => prev.map(swap));
+      setExpandedFrame(prev => prev && swap(prev));
+      historyRef.current = { past: historyRef.current.past.map(swapChanges), future: historyRef.current.future.map(swapChanges) };
+      // The saved session already holds these stills; a swapped copy is not a change worth rewriting
+      const stored = sessionRef.current?.stored.blobs;
+      stored?.forEach((blob, id) => {
+          const copy = copies.get(blob);
+          if (copy) stored.set(id, copy);
+      });
+  };
+
+  useEffect(() => {
+      if (isSpillingRef.current || spillUnavailableRef.current) return;
+      const stills = stillsToSpill([...frames, ...(expandedFrame ? [expandedFrame] : []), ...historyFrames()], memoryBudget * 1024 * 1024);
+      if (stills.length === 0) return;
+      isSpillingRef.current = true;
+      const copies = new Map<Blob, Blob>();
+      (async () => {
+          const store = await openSpillStore();
+          if (!store) throw new Error("No writable storage");
+          for (const still of stills) {
+              const key = `still-${nextSpillKeyRef.current++}`;
+              const copy = await store.write(key, still);
+              diskBlobs.add(copy);
+              diskCopies.set(still, copy);
+              spillKeysRef.current.set(copy, key);
+              copies.set(still, copy);
+          }
+      })()
+          .catch(e => {
+              // Without disk space the stills simply stay in memory
+              console.warn("Could not move frames out of memory:", e);
+              spillUnavailableRef.current = true;
+          })
+          .finally(() => {
+              isSpillingRef.current = false;
+              // Swapping triggers the next check, which picks up frames added meanwhile
+              swapStills(copies);
+          });
+  }, [frames, expandedFrame, historyDepth, memoryBudget]);
+
+  const storageUsage = useMemo(
+      () => frameStorageUsage([...frames, ...(expandedFrame ? [expandedFrame] : []), ...historyFrames()]),
+      [frames, expandedFrame, historyDepth]
+  );
+
+  // The grid shows thumbnails; the open frame is shown from its full-resolution still
+  const expandedStill = expandedFrame?.blob;
+  const expandedUrl = useMemo(() => expandedStill && URL.createObjectURL(expandedStill), [expandedStill]);
+  useEffect(() => () => { if (expandedUrl) URL.revokeObjectURL(expandedUrl); }, [expandedUrl]);
+
+  const updateSource = (id: string, changes: Partial<VideoSource>) => {
+      setSources(prev => prev.map(s => s.id === id ? { ...s, ...changes } : s));
+  };
+
   // --- Video Processing Engine ---
-  const processVideo = async (file: File) => {
-    setIsProcessing(true);
-    setProgress(0);
-    setFrames([]);
+  // Extracts one queued video. Frames stream into the shared gallery tagged with the source id.
+  const processVideo = async (source: VideoSource, signal: AbortSignal): Promise<VideoSourceStatus> => {
+    const { file } = source;
+    const setProgress = (progress: number) => updateSource(source.id, { progress });
+    const report: ExtractionReport = { requested: 0, extracted: 0, merged: 0, timedOut: 0, failed: 0, blank: 0, faded: 0 };
 
-    const video = document.createElement('video');
-    video.src = URL.createObjectURL(file);
-    video.muted = true;
-    video.playsInline = true;
-    video.autoplay = true; // Helps 'wake up' decoders on some mobile devices
-    video.crossOrigin = "anonymous";
-    
-    // IMPORTANT: Mobile browsers often won't decode if completely off-screen or opacity 0.
-    // We make it technically visible but tiny and transparent-ish.
-    video.style.position = 'fixed';
-    video.style.top = '0';
-    video.style.left = '0';
-    video.style.width = '1px';
-    video.style.height = '1px';
-    video.style.opacity = '0.01';
-    video.style.pointerEvents = 'none';
-    video.style.zIndex = '-1000';
-    
-    document.body.appendChild(video);
+    // A failure that loses the whole video is reported right away rather than at the end of the batch
+    const fail = (e: unknown): VideoSourceStatus => {
+        console.error(`Could not extract ${file.name}:`, e);
+        report.error = isCategorizedError(e) ? e.kind : 'extraction';
+        report.errorDetail = isCategorizedError(e) ? e.detail : undefined;
+        updateSource(source.id, { report: { ...report } });
+        notify('error', `${file.name}: ${describeVideoError(report.error, report.errorDetail, t, currentLang)}`, viewReportAction());
+        return 'error';
+    };
 
-    // Wait for metadata to load
+    const unsupportedCodec = await findUnsupportedCodec(file);
+    if (unsupportedCodec) return fail(categorizedError('unsupportedCodec', `Cannot decode ${unsupportedCodec}`, unsupportedCodec));
+
+    let video: HTMLVideoElement;
     try {
-        await new Promise((resolve, reject) => {
-        video.onloadedmetadata = () => resolve(null);
-        video.onerror = (e) => reject(e);
-        // Timeout just in case
-        setTimeout(() => reject(new Error("Video load timeout")), 10000);
-        });
+        video = await loadVideoElement(file);
     } catch (e) {
-        alert(t.errMetadata);
-        if (video.parentNode) document.body.removeChild(video);
-        setIsProcessing(false);
-        return;
+        return fail(e);
     }
 
     // Ensure sensible duration. Fallback to 1s if 0/NaN, cap if Infinity (streaming).
@@ -299,282 +5419,1213 @@ const App = () => {
     if (!Number.isFinite(duration) || duration <= 0) {
         duration = 1;
     }
+    updateSource(source.id, { duration });
 
     const width = video.videoWidth;
     const height = video.videoHeight;
+    const creationTime = await readContainerCreationTime(file).catch(() => null);
+    updateSource(source.id, { width, height, creationTime });
+
+    // Only the chosen segments are sampled, and sampling density follows their combined length
+    const chosen = normalizeRanges(source.segments ?? [], duration);
+    const segments = chosen.length ? chosen : [{ start: 0, end: duration }];
+    const selected = rangesLength(segments);
 
     // Target roughly 30 frames / user-specific intervals for a good portfolio selection without crashing memory
     const targetFrameCount = 30;
     const maxFrameCount = 600;
     let interval = 0;
-    if (framepSecond > 0 || framepSecond) {
-      interval = Math.max(1 / framepSecond, duration / maxFrameCount);
+    if (extractionMode === 'scene') {
+      // Sample densely so short shots between cuts are not skipped over
+      interval = Math.max(SCENE_SAMPLE_INTERVAL, selected / maxFrameCount);
+    } else if (framepSecond > 0 || framepSecond) {
+      interval = Math.max(1 / framepSecond, selected / maxFrameCount);
     } else {
       // Allow tighter spacing for short videos (down to 0.1s), ensuring we get enough frames
       // but don't over-process very long videos.
-      interval = Math.max(0.1, duration / targetFrameCount);
+      interval = Math.max(0.1, selected / targetFrameCount);
     }
 
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    const encoder = createFrameEncoder(width, height);
 
-    if (!ctx) {
-      if (video.parentNode) document.body.removeChild(video);
-      setIsProcessing(false);
-      alert(t.errCanvas);
+    if (!encoder) {
+      releaseVideoElement(video);
+      return fail(categorizedError('canvas', 'Could not create the frame encoder'));
+    }
+
+    // Frames are streamed into the gallery as soon as they are encoded
+    const pushFrame = (blob: Blob, thumbnail: Blob, timestamp: number, quality?: FrameQuality, hash?: string) => {
+        const frame: PortfolioFrame = {
+            id: `${source.id}-frame-${timestamp.toFixed(2)}`,
+            url: URL.createObjectURL(thumbnail),
+            blob,
+            thumbnail,
+            selected: false,
+            timestamp,
+            sourceId: source.id,
+            quality,
+            hash
+        };
+        setFrames(prev => [...prev, frame]);
+    };
+
+    // Scene mode state: the best-scoring candidate of the current shot is held back until the next cut,
+    // so each shot yields its sharpest still rather than its first one.
+    const threshold = sceneThreshold(sceneSensitivity);
+    let prevSignature: SceneSignature | null = null;
+    let shotBest: { blob: Blob; thumbnail: Blob; timestamp: number; quality?: FrameQuality; hash?: string } | null = null;
+    // A segment boundary always ends the shot: the footage on either side is not contiguous
+    let shotSegment = 0;
+
+    const flushShot = () => {
+        if (shotBest) {
+            pushFrame(shotBest.blob, shotBest.thumbnail, shotBest.timestamp, shotBest.quality, shotBest.hash);
+            shotBest = null;
+        }
+    };
+
+    // Start slightly in to avoid potential black frames at specifically 0.0s
+    // Safeguard: hard limit on the number of targets to prevent any possibility of runaway loops
+    const MAX_LOOPS = 600; 
+    const targetTimes: number[] = [];
+    const targetSegments: number[] = [];
+    // Share of the selected length covered once each target is reached, for progress reporting
+    const targetProgress: number[] = [];
+    let covered = 0;
+    segments.forEach(({ start, end }, segment) => {
+        const first = start === 0 ? Math.min(0.1, (end - start) / 10) : start;
+        for (let time = first; time < end && targetTimes.length < MAX_LOOPS; time += interval) {
+            targetTimes.push(time);
+            targetSegments.push(segment);
+            targetProgress.push((covered + time - start) / selected);
+        }
+        covered += end - start;
+    });
+    report.requested = targetTimes.length;
+    const progressAt = (index: number) => Math.min(99, Math.round(targetProgress[index] * 100));
+
+    // Analyse an encoded frame and keep it (or hold it as a shot candidate)
+    const handleEncodedFrame = ({ blob, thumbnail, sample }: EncodedFrame, timestamp: number, segment: number) => {
+        // A scoring failure should never abort extraction
+        let quality: FrameQuality | undefined;
+        let hash: string | undefined;
+        let signature: SceneSignature | undefined;
+        try {
+            quality = computeFrameQuality(sample);
+            hash = computePerceptualHash(sample);
+            if (extractionMode === 'scene') signature = computeSceneSignature(sample);
+        } catch (e) {
+            console.warn(`Could not score frame at ${timestamp}s:`, e);
+        }
+
+        if (signature) {
+            if (segment !== shotSegment) {
+                flushShot();
+                prevSignature = null;
+                shotSegment = segment;
+            }
+            const isCut = prevSignature !== null && sceneDifference(prevSignature, signature) > threshold;
+            prevSignature = signature;
+
+            if (isCut) flushShot();
+            if (!shotBest || (quality?.score ?? 0) > (shotBest.quality?.score ?? 0)) {
+                shotBest = { blob, thumbnail, timestamp, quality, hash };
+            }
+        } else if (extractionMode !== 'scene') {
+            pushFrame(blob, thumbnail, timestamp, quality, hash);
+        }
+    };
+
+    // Blank cards and fades are dropped before anything else sees them. A frame is judged once the frame after it
+    // has arrived, so it can be compared with both neighbours and fades in and out are both caught.
+    let judged: ScreenedFrame | null = null;
+    let pending: ScreenedFrame | null = null;
+    let bars: BarTracker | null = null;
+
+    const screenFrame = (next: ScreenedFrame | null) => {
+        if (next && !isBlankFrame(next.stats)) bars = trackBars(bars, next.encoded.sample);
+        const frame = pending;
+        if (frame) {
+            const isFade = [judged, next].some(n => n && n.segment === frame.segment
+                && isFadeOf(frame.encoded.sample, frame.stats, n.encoded.sample, n.stats));
+            if (isBlankFrame(frame.stats)) report.blank++;
+            else if (isFade) report.faded++;
+            else handleEncodedFrame(frame.encoded, frame.timestamp, frame.segment);
+        }
+        judged = frame;
+        pending = next;
+    };
+
+    // Encoding runs in the background; a few frames may be in flight while the next one is decoded.
+    // Results are consumed in submission order so scene detection sees frames in sequence.
+    const inFlight: { timestamp: number; segment: number; result: Promise<EncodedFrame | null> }[] = [];
+    const settleOldest = async () => {
+        const next = inFlight.shift();
+        if (!next) return;
+        const encoded = await next.result.catch(e => {
+            console.warn(`Could not encode frame at ${next.timestamp}s:`, e);
+            return null;
+        });
+        if (encoded) {
+            report.extracted++;
+            screenFrame({ encoded, timestamp: next.timestamp, segment: next.segment, stats: computeLumaStats(encoded.sample) });
+        } else {
+            report.failed++;
+        }
+    };
+    const submitFrame = async (source: HTMLVideoElement | VideoFrame, timestamp: number, segment: number) => {
+        let image: ImageBitmap;
+        try {
+            image = await createImageBitmap(source);
+        } catch (e) {
+            console.warn(`Could not read frame at ${timestamp}s:`, e);
+            report.failed++;
+            return;
+        }
+        inFlight.push({ timestamp, segment, result: encoder.encode(image) });
+        while (inFlight.length >= MAX_FRAMES_IN_FLIGHT) await settleOldest();
+    };
+
+    // Blocks the extraction loop while paused; cancelling also releases it
+    const waitWhilePaused = async () => {
+        while (runRef.current?.paused && !signal.aborted) {
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+    };
+
+    try {
+      // Fast path: sequential WebCodecs decode. Falls through to seeking when unsupported.
+      // Every target a decoded frame covers beyond the first landed on that same source frame.
+      let nextTarget = 0;
+      let decoded = false;
+      try {
+          decoded = await decodeFramesAt(file, targetTimes, async (frame, targetIndex, targetCount) => {
+              setProgress(progressAt(targetIndex));
+              report.merged += targetIndex - nextTarget + targetCount - 1;
+              nextTarget = targetIndex + targetCount;
+              await submitFrame(frame, frame.timestamp / 1e6, targetSegments[targetIndex]);
+              await waitWhilePaused();
+          }, signal);
+          // Targets past the last decodable frame never came out of the decoder
+          if (decoded && !signal.aborted) report.failed += targetTimes.length - nextTarget;
+      } catch (e) {
+          // Some (often hardware) decoders accept the config and then fail on real samples.
+          // Frames decoded so far are kept; seeking picks up from the first target not yet reached.
+          console.warn(`WebCodecs decoding failed for ${file.name}, seeking the remaining frames:`, e);
+          while (inFlight.length) await settleOldest();
+      }
+
+      if (!decoded) {
+        for (let i = nextTarget; i < targetTimes.length && !signal.aborted; i++) {
+          const currentTime = targetTimes[i];
+          setProgress(progressAt(i));
+
+          let ready = false;
+          try {
+              ready = await seekVideo(video, currentTime);
+              if (!ready) report.timedOut++;
+          } catch (e) {
+              console.error("Error seeking frame:", e);
+              report.failed++;
+          }
+
+          if (ready) await submitFrame(video, currentTime, targetSegments[i]);
+          await waitWhilePaused();
+        }
+      }
+
+      // Whatever was already submitted is kept, including after a cancel
+      while (inFlight.length) await settleOldest();
+      // The last frame has no successor to be compared with
+      screenFrame(null);
+
+      // Flush the last shot, which has no closing cut
+      flushShot();
+      const pictureArea = detectPictureArea(bars) ?? undefined;
+      updateSource(source.id, { report: { ...report }, pictureArea });
+      const lost = report.timedOut + report.failed;
+      if (lost > 0) notify('warning', `${file.name}: ${formatMessage(t.warnFramesLost, { count: lost }, currentLang)}`, viewReportAction());
+      if (pictureArea) notify('info', `${file.name}: ${t.barsDetected}`, { label: t.cropToPicture, run: () => cropToPicture(source.id, pictureArea) });
+      return signal.aborted ? 'cancelled' : 'done';
+    } catch (error) {
+      return fail(error);
+    } finally {
+      // Cleanup
+      releaseVideoElement(video);
+      encoder.close();
+      setProgress(100);
+    }
+  };
+
+  // Queues the dropped videos, first stopping at the segment picker when trimming is switched on
+  const processFiles = async (files: File[]) => {
+    const videos = files.filter(f => f.type.startsWith('video/'));
+    if (videos.length === 0) {
+      notify('warning', t.errInvalid);
+      return;
+    }
+
+    const batchId = Date.now().toString(36);
+    const queue: VideoSource[] = videos.map((file, i) => ({
+        id: `video-${batchId}-${i}`,
+        file,
+        name: file.name,
+        status: 'queued',
+        progress: 0
+    }));
+
+    if (trimBeforeExtract) {
+      setSources(queue);
+      setIsTrimming(true);
       return;
     }
+    extractQueue(queue);
+  };
+
+  // Runs every queued video through the engine one after another, sharing one pause/cancel control
+  const extractQueue = async (queue: VideoSource[]) => {
+    const controller = new AbortController();
+    runRef.current = { controller, paused: false };
+    sessionRef.current = { id: `session-${Date.now().toString(36)}`, createdAt: Date.now(), stored: { blobs: new Map(), files: new Set(), skipFiles: false } };
+    setIsPaused(false);
+    setSources(queue);
+    setFrames([]);
+    clearHistory();
+    setIsProcessing(true);
+
+    try {
+      for (const source of queue) {
+        if (controller.signal.aborted) {
+          updateSource(source.id, { status: 'cancelled' });
+          continue;
+        }
+        updateSource(source.id, { status: 'processing' });
+        const status = await processVideo(source, controller.signal);
+        updateSource(source.id, { status });
+      }
+    } finally {
+      if (runRef.current?.controller === controller) runRef.current = null;
+      setIsProcessing(false);
+      setIsPaused(false);
+    }
+  };
+
+  // Overall progress across the queue, weighting each video by the length being extracted from it.
+  // Until every duration is known the videos count equally.
+  const sourceWeights = sources.map(selectedLength);
+  const weightsKnown = sourceWeights.every(w => w !== undefined && w > 0);
+  const weightOf = (i: number) => weightsKnown ? sourceWeights[i] ?? 0 : 1;
+  const totalWeight = sources.reduce((sum, _, i) => sum + weightOf(i), 0);
+  const progress = sources.length
+      ? Math.round(sources.reduce((sum, s, i) => sum + (s.status === 'queued' ? 0 : s.progress) * weightOf(i), 0) / totalWeight)
+      : 0;
+
+  const togglePause = () => {
+      if (!runRef.current) return;
+      runRef.current.paused = !runRef.current.paused;
+      setIsPaused(runRef.current.paused);
+  };
+
+  const cancelProcessing = () => {
+      runRef.current?.controller.abort();
+  };
+
+  // --- Event Handlers ---
+  const onDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    processFiles(Array.from(e.dataTransfer.files));
+  }, [t, framepSecond, extractionMode, sceneSensitivity, trimBeforeExtract]);
+
+  const onFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      processFiles(Array.from(e.target.files));
+    }
+  };
+
+  const handleRerun = useCallback(() => {
+    // Stop any extraction still running so it doesn't keep streaming frames in
+    runRef.current?.controller.abort();
+    // Emptying the gallery and the history lets the URL sweep revoke every object URL
+    clearHistory();
+    releaseSourceVideo();
+    // Starting over also forgets the saved copy of this session
+    if (saveTimerRef.current !== null) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    if (sessionRef.current) {
+        deleteSession(sessionRef.current.id).catch(e => console.warn("Could not delete saved session:", e));
+        sessionRef.current = null;
+    }
+    setFrames([]);
+    setSources([]);
+    setIsProcessing(false);
+  }, []);
+
+  // Picking a rejected frame takes back the rejection
+  const toggleFrameSelection = (id: string) => {
+    commitFrames(frames => frames.map(f => f.id === id ? { ...f, selected: !f.selected, rejected: f.selected && f.rejected } : f));
+    // Also update expanded frame if it's the one being toggled
+    if (expandedFrame && expandedFrame.id === id) {
+        setExpandedFrame(prev => prev ? { ...prev, selected: !prev.selected, rejected: prev.selected && prev.rejected } : null);
+    }
+  };
+
+  const flagFrame = (id: string, changes: Partial<CullingFlags>) => {
+    commitFrames(prev => prev.map(f => f.id === id ? { ...f, ...changes } : f));
+    setExpandedFrame(prev => prev && prev.id === id ? { ...prev, ...changes } : prev);
+  };
+
+  const toggleLabel = (frame: PortfolioFrame, label: ColorLabel) =>
+      flagFrame(frame.id, { label: frame.label === label ? undefined : label });
+
+  const toggleRejected = (frame: PortfolioFrame) =>
+      flagFrame(frame.id, frame.rejected ? { rejected: false } : { rejected: true, selected: false });
+
+  const deleteFrame = (id: string) => {
+    const frameIndex = visibleFrames.findIndex(f => f.id === id);
+    // Prefer next frame, otherwise previous frame
+    const nextFrameToShow = visibleFrames[frameIndex + 1] || visibleFrames[frameIndex - 1] || null;
+
+    // Object URLs stay alive while the delete can be undone; an emptied gallery offers undo or starting over
+    commitFrames(prev => prev.filter(f => f.id !== id));
+    // If currently expanded frame was deleted, move to next/prev
+    if (expandedFrame && expandedFrame.id === id) {
+        setExpandedFrame(nextFrameToShow);
+    }
+  };
+
+  // Stores edit parameters on the frames as one action, then renders previews so the grid and lightbox show the result
+  const editFrames = (ids: string[], changes: Partial<FrameEdits>) => {
+    const targets = new Set(ids);
+    commitFrames(prev => prev.map(f => targets.has(f.id) ? { ...f, ...changes } : f));
+    setExpandedFrame(prev => prev && targets.has(prev.id) ? { ...prev, ...changes } : prev);
+    framesRef.current.filter(f => targets.has(f.id)).forEach(renderPreview);
+  };
+
+  // --- Animated Clips ---
+
+  const renderFrameClip = async (frame: PortfolioFrame, settings: ClipSettings) => {
+    const source = sourceById.get(frame.sourceId);
+    if (!source) return null;
+    try {
+        const clip = await renderClip(await getSourceVideo(source), frame.timestamp, settings, frame);
+        if (!clip) notify('error', t.errClip);
+        return clip;
+    } catch (e) {
+        console.warn("Could not render the clip:", e);
+        notify('error', t.errClip);
+        return null;
+    }
+  };
+
+  // A paired download zips the clip with its edited still under one base name, like a live photo
+  const downloadFrameClip = async (frame: PortfolioFrame, clip: Blob, settings: ClipSettings) => {
+    const source = sourceById.get(frame.sourceId);
+    const base = sanitizeFileName(`${source ? stripExtension(source.name) : 'video'}_${formatTimestampToken(frame.timestamp)}`);
+    const clipName = `${base}.${CLIP_FORMATS[settings.format].extension}`;
+    if (!settings.pairWithStill) {
+        downloadBlob(clip, clipName);
+        return;
+    }
+    const still = (frame.crop || frame.adjustments ? await renderEditedBlob(frame.blob, frame) : null) ?? frame.blob;
+    const zip = new JSZip();
+    zip.file(`${base}.jpg`, still);
+    zip.file(clipName, clip);
+    downloadBlob(await zip.generateAsync({ type: "blob" }), `${base}.zip`);
+  };
+
+  const setFrameClip = (id: string, clip: ClipSettings | undefined) => {
+    commitFrames(prev => prev.map(f => f.id === id ? { ...f, clip } : f));
+    setExpandedFrame(prev => prev && prev.id === id ? { ...prev, clip } : prev);
+  };
+
+  // Renders the edits of `frame` (the state just set) into its previewUrl
+  const renderPreview = async (frame: PortfolioFrame) => {
+    const { id, blob, crop, adjustments } = frame;
+    const token = {};
+    previewTokensRef.current.set(id, token);
+    const rendered = crop || adjustments ? await renderEditedBlob(blob, { crop, adjustments }).catch(() => null) : null;
+    const previewUrl = rendered ? URL.createObjectURL(rendered) : undefined;
+    // A later edit, replacement or delete may have landed while this one rendered
+    const current = framesRef.current.find(f => f.id === id);
+    if (previewTokensRef.current.get(id) !== token || !current || (current.blob !== blob && current.blob !== diskCopies.get(blob))) {
+        if (previewUrl) URL.revokeObjectURL(previewUrl);
+        return;
+    }
+    previewTokensRef.current.delete(id);
+    // The replaced preview is revoked by the URL sweep once the history no longer needs it
+    setFrames(prev => prev.map(f => f.id === id ? { ...f, previewUrl } : f));
+    setExpandedFrame(prev => prev && prev.id === id ? { ...prev, previewUrl } : prev);
+  };
+
+  // Crops every not yet cropped frame of a video to the picture inside its black bars, as one undoable edit
+  const cropToPicture = (sourceId: string, area: PictureArea) => {
+    editFrames(framesRef.current.filter(f => f.sourceId === sourceId && !f.crop).map(f => f.id), { crop: { ...FULL_CROP, ...area } });
+  };
+
+  // One correction usually fits every frame of a clip: apply it to the open frame and the whole selection
+  const copyAdjustments = (fromId: string, adjustments: FrameAdjustments | undefined) => {
+    editFrames(framesRef.current.filter(f => f.selected || f.id === fromId).map(f => f.id), { adjustments });
+  };
+
+  // --- Manual Capture ---
+  // Stepping and the timeline re-read the original file through one shared video element
+
+  const getSourceVideo = async (source: VideoSource) => {
+    if (sourceVideoRef.current?.sourceId !== source.id) {
+        releaseSourceVideo();
+        sourceVideoRef.current = { sourceId: source.id, video: await loadVideoElement(source.file) };
+    }
+    return sourceVideoRef.current.video;
+  };
+
+  const releaseSourceVideo = () => {
+    if (sourceVideoRef.current) releaseVideoElement(sourceVideoRef.current.video);
+    sourceVideoRef.current = null;
+  };
+
+  // Adds a still as a new selected frame (after `afterId` when given); an identical capture just returns the existing frame
+  const insertCapturedFrame = (
+    sourceId: string,
+    time: number,
+    still: CapturedStill,
+    { edits = {}, afterId, stackedFrames }: { edits?: FrameEdits; afterId?: string; stackedFrames?: number } = {}
+  ) => {
+    const id = `${sourceId}-frame-${time.toFixed(3)}${stackedFrames ? `-stack${stackedFrames}` : ''}`;
+    const existing = framesRef.current.find(f => f.id === id);
+    if (existing) return existing;
+    const added: PortfolioFrame = {
+        id,
+        url: URL.createObjectURL(still.thumbnail),
+        blob: still.blob,
+        thumbnail: still.thumbnail,
+        selected: true,
+        timestamp: time,
+        sourceId,
+        quality: still.quality,
+        hash: still.hash,
+        stackedFrames,
+        ...edits
+    };
+    commitFrames(prev => {
+        const at = afterId ? prev.findIndex(f => f.id === afterId) : -1;
+        return at === -1 ? [...prev, added] : [...prev.slice(0, at + 1), added, ...prev.slice(at + 1)];
+    });
+    renderPreview(added);
+    return added;
+  };
+
+  const captureFrameAt = async (source: VideoSource, time: number) => {
+    setIsCapturing(true);
+    try {
+        const still = await captureStill(await getSourceVideo(source), time);
+        if (still) insertCapturedFrame(source.id, time, still);
+        else notify('error', t.errStep);
+    } catch (e) {
+        console.warn("Could not capture from the source video:", e);
+        notify('error', t.errStep);
+    } finally {
+        setIsCapturing(false);
+    }
+  };
 
-    const newFrames: PortfolioFrame[] = [];
-    // Start slightly in to avoid potential black frames at specifically 0.0s
-    let currentTime = Math.min(0.1, duration / 10);
-    
-    // Safeguard: hard limit on iterations to prevent any possibility of infinite loops
-    let loopCount = 0;
-    const MAX_LOOPS = 600; 
+  // --- Frame Stepping ---
+  // Moves through the source file around the open frame, one source frame or a small time delta at a time
 
-    try {
-      while (currentTime < duration && loopCount < MAX_LOOPS) {
-        loopCount++;
-        
-        // Update progress based on time or hit count
-        const timeProgress = (currentTime / duration) * 100;
-        const loopProgress = (loopCount / MAX_LOOPS) * 100;
-        setProgress(Math.min(99, Math.round(Math.max(timeProgress, loopProgress))));
+  const discardStepPreview = () => {
+    setStepPreview(prev => {
+        if (prev) URL.revokeObjectURL(prev.url);
+        return null;
+    });
+  };
 
-        video.currentTime = currentTime;
+  const ensureFrameDuration = async (source: VideoSource) => {
+    if (source.frameDuration) return source.frameDuration;
+    const frameDuration = await detectFrameDuration(source.file);
+    updateSource(source.id, { frameDuration });
+    return frameDuration;
+  };
 
-        // Wait for seek to complete and frame to be ready, with a timeout safeguard
-        try {
-            await new Promise((resolve, reject) => {
-                const timeoutId = setTimeout(() => {
-                    console.warn(`Frame seek timed out at ${currentTime}s, skipping.`);
-                    resolve(null); 
-                }, 2000); // 2 second max wait per frame
-
-                const onSeeked = () => {
-                    // Ensure we have data to draw. Mobile sometimes needs a slightly higher readyState 
-                    // or just a tiny bit more time even after seeked fires.
-                    if (video.readyState >= 2) { // HAVE_CURRENT_DATA or better
-                        clearTimeout(timeoutId);
-                        // Double rAF to ensure the frame is actually painted to the video element's internal buffer
-                        requestAnimationFrame(() => {
-                            requestAnimationFrame(() => resolve(null));
-                        });
-                    } else {
-                        // If seeked fired but data isn't ready, wait a tiny bit more
-                        setTimeout(onSeeked, 50);
-                    }
-                };
+  const stepFrame = async (delta: { frames?: number; seconds?: number }) => {
+    if (!expandedFrame || isStepping) return;
+    const source = sourceById.get(expandedFrame.sourceId);
+    if (!source) return;
+    setIsStepping(true);
+    try {
+        const frameDuration = await ensureFrameDuration(source);
+        const video = await getSourceVideo(source);
 
-                video.onseeked = onSeeked;
-                video.onerror = (e) => {
-                     clearTimeout(timeoutId);
-                     reject(e);
-                }
-            });
-        } catch (e) {
-            console.error("Error seeking frame:", e);
+        // Work in whole source frames so repeated steps never drift between two frames
+        const lastFrame = Math.max(0, Math.floor((source.duration ?? video.duration) / frameDuration) - 1);
+        const from = stepPreview?.time ?? expandedFrame.timestamp;
+        const index = clamp(
+            Math.floor((from + (delta.seconds ?? 0)) / frameDuration + 1e-6) + (delta.frames ?? 0),
+            0,
+            lastFrame
+        );
+        const time = index * frameDuration;
+        // Seek to the middle of the frame so rounding can't land on its neighbour
+        const still = await captureStill(video, time + frameDuration / 2);
+        if (!still) {
+            notify('error', t.errStep);
+            return;
         }
 
-        // Draw frame to canvas
-        ctx.drawImage(video, 0, 0, width, height);
+        setStepPreview(prev => {
+            if (prev) URL.revokeObjectURL(prev.url);
+            return { ...still, time, url: URL.createObjectURL(still.blob) };
+        });
+    } catch (e) {
+        console.warn("Could not step through the source video:", e);
+        notify('error', t.errStep);
+    } finally {
+        setIsStepping(false);
+    }
+  };
 
-        // Convert to blob
-        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+  // Swaps the open frame's image for the stepped one, keeping its selection and edits
+  const replaceWithStep = () => {
+    if (!expandedFrame || !stepPreview) return;
+    const frame = framesRef.current.find(f => f.id === expandedFrame.id);
+    if (!frame) return;
+    const { time, blob, thumbnail, quality, hash } = stepPreview;
+    const replaced: PortfolioFrame = {
+        ...frame,
+        url: URL.createObjectURL(thumbnail),
+        blob,
+        thumbnail,
+        timestamp: time,
+        quality,
+        hash,
+        faces: undefined,
+        previewUrl: undefined,
+        stackedFrames: undefined
+    };
+    commitFrames(prev => prev.map(f => f.id === frame.id ? replaced : f));
+    setExpandedFrame(replaced);
+    discardStepPreview();
+    renderPreview(replaced);
+  };
 
-        if (blob) {
-          const url = URL.createObjectURL(blob);
-          newFrames.push({
-            id: `frame-${currentTime.toFixed(2)}`,
-            url,
-            blob,
-            selected: false,
-            timestamp: currentTime
-          });
+  // Keeps the open frame and inserts the stepped one next to it, carrying over its edits
+  const addStepAsNew = () => {
+    if (!expandedFrame || !stepPreview) return;
+    const { crop, adjustments } = expandedFrame;
+    setExpandedFrame(insertCapturedFrame(expandedFrame.sourceId, stepPreview.time, stepPreview, { edits: { crop, adjustments }, afterId: expandedFrame.id }));
+    discardStepPreview();
+  };
+
+  // Merges the source frames around the open frame into a cleaner still, inserted next to it with the same edits
+  const enhanceFrame = async () => {
+    if (!expandedFrame || isEnhancing) return;
+    const frame = expandedFrame;
+    const source = sourceById.get(frame.sourceId);
+    if (!source) return;
+    setIsEnhancing(true);
+    try {
+        const frameDuration = await ensureFrameDuration(source);
+        const video = await getSourceVideo(source);
+        const lastFrame = Math.max(0, Math.floor((source.duration ?? video.duration) / frameDuration) - 1);
+        const center = clamp(Math.floor(frame.timestamp / frameDuration + 1e-6), 0, lastFrame);
+
+        // Nearest neighbours first, alternating sides; near either end the window shifts inward
+        const indices = [center];
+        for (let offset = 1; indices.length < stackSize && offset <= lastFrame; offset++) {
+            for (const index of [center - offset, center + offset]) {
+                if (index >= 0 && index <= lastFrame && indices.length < stackSize) indices.push(index);
+            }
         }
+        const still = await captureStackedStill(video, indices.map(i => i * frameDuration + frameDuration / 2), stackMode);
+        if (!still) throw new Error('Not enough source frames to stack');
 
-        currentTime += interval;
-      }
-    } catch (error) {
-      console.error("Error extracting frames:", error);
-      alert(t.errGeneral);
+        const { crop, adjustments } = frame;
+        setExpandedFrame(insertCapturedFrame(frame.sourceId, center * frameDuration, still, {
+            edits: { crop, adjustments },
+            afterId: frame.id,
+            stackedFrames: still.stackedFrames
+        }));
+    } catch (e) {
+        console.warn("Could not enhance the frame:", e);
+        notify('error', t.errEnhance);
     } finally {
-      // Cleanup
-      URL.revokeObjectURL(video.src);
-      if (video.parentNode) {
-          document.body.removeChild(video);
-      }
-      video.remove();
-      canvas.remove();
-
-      setFrames(newFrames);
-      setIsProcessing(false);
-      setProgress(100);
+        setIsEnhancing(false);
     }
   };
 
-  // --- Event Handlers ---
-  const onDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    setIsDragging(false);
-    const file = e.dataTransfer.files[0];
-    if (file && file.type.startsWith('video/')) {
-      setVideoFile(file);
-      processVideo(file);
-    } else {
-      alert(t.errInvalid);
-    }
-  }, [t, framepSecond]);
+  // Frames scoring below the quality threshold are hidden from the gallery (but kept) unless revealed
+  const isFrameVisible = (f: PortfolioFrame) =>
+      (showHidden || !f.quality || f.quality.score >= minQuality) &&
+      (!facesOnly || (f.faces?.boxes.length ?? 0) > 0) &&
+      (f.rating ?? 0) >= ratingFilter &&
+      (!labelFilter || f.label === labelFilter) &&
+      (!hideRejected || !f.rejected);
+  const sourceById = useMemo(() => new Map(sources.map(s => [s.id, s])), [sources]);
+  const groupByVideo = galleryLayout === 'byVideo' && sources.length > 1;
+  const visibleFrames = useMemo(() => {
+      const visible = frames.filter(isFrameVisible);
+      const sourceIndex = new Map(sources.map((s, i) => [s.id, i]));
+      // Approximate wall-clock start of each recording (files are usually last modified when recording stops),
+      // so the merged timeline interleaves clips in the order they were shot
+      const sourceStart = new Map(sources.map(s => [s.id, sourceRecordingStart(s) / 1000]));
+      const byVideo = (a: PortfolioFrame, b: PortfolioFrame) =>
+          groupByVideo ? (sourceIndex.get(a.sourceId) ?? 0) - (sourceIndex.get(b.sourceId) ?? 0) : 0;
+      const byMode = (a: PortfolioFrame, b: PortfolioFrame) => {
+          if (sortMode === 'quality') return (b.quality?.score ?? 0) - (a.quality?.score ?? 0);
+          if (sortMode === 'faces') return (b.faces?.score ?? 0) - (a.faces?.score ?? 0);
+          return ((sourceStart.get(a.sourceId) ?? 0) + a.timestamp) - ((sourceStart.get(b.sourceId) ?? 0) + b.timestamp);
+      };
+      return visible.sort((a, b) => byVideo(a, b) || byMode(a, b));
+  }, [frames, showHidden, minQuality, facesOnly, ratingFilter, labelFilter, hideRejected, sortMode, sources, groupByVideo]);
+  // Only the quality threshold hides frames behind the toggle; the other filters are shown in the bar
+  const hiddenCount = frames.filter(f => f.quality && f.quality.score < minQuality).length;
 
-  const onFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setVideoFile(file);
-      processVideo(file);
-    }
+  // --- Face Analysis ---
+  const hasFaceAnalysis = frames.some(f => f.faces);
+
+  const analyzeFaces = async () => {
+      const pending = framesRef.current.filter(f => !f.faces);
+      if (pending.length === 0) return;
+
+      setFaceProgress({ done: 0, total: pending.length });
+      // The browser's own detector when it has one, else the bundled model (downloaded on first use)
+      const native = getNativeFaceDetector();
+      let detector: FrameFaceDetector;
+      try {
+          detector = native ? nativeFrameDetector(native) : await loadBundledFaceDetector();
+      } catch (e) {
+          console.warn("Could not load the face detection model:", e);
+          notify('error', t.errFaceModel);
+          setFaceProgress(null);
+          return;
+      }
+      for (let i = 0; i < pending.length; i++) {
+          const frame = pending[i];
+          try {
+              let faces: FaceAnalysis;
+              try {
+                  faces = await analyzeFrameFaces(frame.blob, detector);
+              } catch (e) {
+                  if (detector.kind !== 'native') throw e;
+                  // Some browsers expose FaceDetector without a working backend; switch to the bundled model for good
+                  console.warn("Native face detection failed, using the bundled model:", e);
+                  try {
+                      detector = await loadBundledFaceDetector();
+                  } catch (loadError) {
+                      console.warn("Could not load the face detection model:", loadError);
+                      notify('error', t.errFaceModel);
+                      break;
+                  }
+                  faces = await analyzeFrameFaces(frame.blob, detector);
+              }
+              setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, faces } : f));
+              setExpandedFrame(prev => prev && prev.id === frame.id ? { ...prev, faces } : prev);
+          } catch (e) {
+              console.warn(`Face analysis failed for ${frame.id}:`, e);
+          }
+          setFaceProgress({ done: i + 1, total: pending.length });
+      }
+      setFaceProgress(null);
   };
 
-  const handleRerun = useCallback(() => {
-    // Cleanup all object URLs
-    framesRef.current.forEach(f => URL.revokeObjectURL(f.url));
-    setFrames([]);
-    setVideoFile(null);
-    setProgress(0);
-    setIsProcessing(false);
-  }, []);
+  // --- Near-Duplicate Groups ---
+  const groups = useMemo(
+      () => groupSimilar ? groupSimilarFrames(visibleFrames, groupDistance) : [],
+      [groupSimilar, visibleFrames, groupDistance]
+  );
+  const stackedGroups = groups.filter(g => g.frameIds.length > 1);
 
-  const toggleFrameSelection = (id: string) => {
-    setFrames(frames => frames.map(f => f.id === id ? { ...f, selected: !f.selected } : f));
-    // Also update expanded frame if it's the one being toggled
-    if (expandedFrame && expandedFrame.id === id) {
-        setExpandedFrame(prev => prev ? { ...prev, selected: !prev.selected } : null);
-    }
+  // Collapsed groups show only their best member; open groups show every member in place
+  const galleryItems = useMemo((): GalleryItem[] => {
+      if (!groupSimilar) return visibleFrames.map(frame => ({ frame, stacked: false }));
+      const byId = new Map(visibleFrames.map(f => [f.id, f]));
+      return groups.flatMap((group): GalleryItem[] => {
+          const members = group.frameIds.map(id => byId.get(id)!);
+          if (members.length === 1) return [{ frame: members[0], stacked: false }];
+          if (openGroups.has(group.id)) return members.map(frame => ({ frame, group, stacked: false }));
+          return [{ frame: byId.get(group.bestId)!, group, stacked: true }];
+      });
+  }, [groupSimilar, groups, visibleFrames, openGroups]);
+
+  const toggleGroupOpen = (groupId: string) => {
+      setOpenGroups(prev => {
+          const next = new Set(prev);
+          if (next.has(groupId)) next.delete(groupId);
+          else next.add(groupId);
+          return next;
+      });
   };
 
-  const deleteFrame = (id: string) => {
-    const frameIndex = frames.findIndex(f => f.id === id);
-    // Prefer next frame, otherwise previous frame
-    const nextFrameToShow = frames[frameIndex + 1] || frames[frameIndex - 1] || null;
-
-    const newFrames = frames.filter(f => f.id !== id);
-
-    // Revoke object URL to free memory
-    const frameToDelete = frames.find(f => f.id === id);
-    if (frameToDelete) URL.revokeObjectURL(frameToDelete.url);
-
-    if (newFrames.length === 0) {
-        // If no frames left, exit expanded mode and prompt user
-        setExpandedFrame(null);
-        setFrames([]); // Visually clear immediately
-        
-        // Use setTimeout to allow UI to settle before blocking alert
-        setTimeout(() => {
-            window.alert(t.warnBadVideo);
-            handleRerun();
-        }, 100);
-    } else {
-        setFrames(newFrames);
-        // If currently expanded frame was deleted, move to next/prev
-        if (expandedFrame && expandedFrame.id === id) {
-            setExpandedFrame(nextFrameToShow);
-        }
-    }
+  const keepBestOfGroups = () => {
+      const toDelete = new Set(stackedGroups.flatMap(g => g.frameIds.filter(id => id !== g.bestId)));
+      if (toDelete.size === 0) return;
+
+      // Every group keeps its best frame, so the gallery never empties here
+      commitFrames(prev => prev.filter(f => !toDelete.has(f.id)));
+      setOpenGroups(new Set());
+      if (expandedFrame && toDelete.has(expandedFrame.id)) setExpandedFrame(null);
+  };
+
+  // Keeps the chosen frame selected and applies `others` to the rest of the comparison
+  const pickWinner = (winnerId: string, others: CompareLoser) => {
+      const losers = new Set((compareIds ?? []).filter(id => id !== winnerId));
+      commitFrames(prev => prev.flatMap(f => {
+          if (f.id === winnerId) return [{ ...f, selected: true, rejected: false }];
+          if (!losers.has(f.id)) return [f];
+          if (others === 'delete') return [];
+          return [{ ...f, selected: false, rejected: others === 'reject' || f.rejected }];
+      }));
+      setCompareIds(null);
   };
 
   const selectAll = (select: boolean) => {
-    setFrames(frames.map(f => ({ ...f, selected: select })));
+    // Only touch what the user can see; hidden frames keep their current selection, and rejects stay unselected
+    commitFrames(prev => prev.map(f => isFrameVisible(f) && !(select && f.rejected) ? { ...f, selected: select } : f));
   };
 
-  const handleDownload = async () => {
-    const selectedFrames = frames.filter(f => f.selected);
-    if (selectedFrames.length === 0) {
-      alert(t.errNoSel);
+  const handleDownload = () => {
+    if (!frames.some(f => f.selected || (f.rating && !f.rejected))) {
+      notify('warning', t.errNoSel);
       return;
     }
+    setIsExportOpen(true);
+    detectEncodableFormats().then(setSupportedFormats);
+  };
+
+  // Lays out the frames in gallery order, with edits applied, for client review
+  const runContactSheet = async () => {
+    const settings = sheetSettings;
+    const sheetFrames = settings.scope === 'selected' ? visibleFrames.filter(f => f.selected) : visibleFrames;
+    if (sheetFrames.length === 0) return;
+    setIsSheetOpen(false);
+    setIsRenderingSheet(true);
+
+    const items: ContactSheetItem[] = [];
+    try {
+        for (const [i, frame] of sheetFrames.entries()) {
+            const blob = frame.previewUrl ? await (await fetch(frame.previewUrl)).blob() : frame.blob;
+            const source = sourceById.get(frame.sourceId);
+            items.push({
+                // Cells are small, so decode straight to thumbnail size to bound memory on long sheets
+                image: await createImageBitmap(blob, { resizeWidth: CONTACT_SHEET_THUMB_WIDTH, resizeQuality: 'high' }),
+                caption: `#${(i + 1).toString().padStart(2, '0')} · ${formatClock(frame.timestamp)} · ${source?.name ?? ''}`
+            });
+        }
+        const title = `${t.contactSheet} · ${[...new Set(sheetFrames.map(f => sourceById.get(f.sourceId)?.name))].join(', ')} · ${new Date().toLocaleDateString(currentLang)}`;
+        const sheet = await renderContactSheet(items, settings, title);
+        if (!sheet) throw new Error('Canvas unavailable');
+        downloadBlob(sheet, `contact_sheet.${settings.format === 'jpeg' ? 'jpg' : settings.format}`);
+    } catch (e) {
+        console.error(e);
+        notify('error', t.errSheet);
+    } finally {
+        items.forEach(({ image }) => image.close());
+        setIsRenderingSheet(false);
+    }
+  };
 
+  // Re-encodes every selected still from the decoded source video (not the lossy extraction JPEG)
+  // with the chosen format, size and naming, then zips them.
+  const runExport = async () => {
+    if (exportFrames.length === 0) return;
+
+    const settings = exportSettings;
+    setIsExportOpen(false);
     setIsZipping(true);
+    setExportProgress({ done: 0, total: exportFrames.length });
 
     try {
         const zip = new JSZip();
-        
-        selectedFrames.forEach((frame, i) => {
+        const { extension } = EXPORT_FORMATS[settings.format];
+        const date = new Date().toISOString().slice(0, 10);
+
+        // With several source videos, each gets its own folder and its own shot numbering
+        const folders = sources.length > 1 ? sourceFolderNames(sources) : new Map<string, string>();
+        const counters = new Map<string, number>();
+        const usedPaths = new Set<string>();
+        const paths = new Map<string, string>();
+
+        exportFrames.forEach((frame) => {
+            const i = counters.get(frame.sourceId) ?? 0;
+            counters.set(frame.sourceId, i + 1);
+            const source = sourceById.get(frame.sourceId);
             // Pad index for nice sorting: portfolio_shot_01.jpg
-            const indexStr = (i + 1).toString().padStart(2, '0');
-            zip.file(`portfolio_shot_${indexStr}.jpg`, frame.blob);
+            const base = renderFileName(settings.fileNameTemplate, {
+                source: source ? stripExtension(source.name) : 'video',
+                timestamp: formatTimestampToken(frame.timestamp),
+                index: (i + 1).toString().padStart(2, '0'),
+                date
+            });
+            const folder = folders.get(frame.sourceId);
+            // Templates without {index} can collide; keep every file
+            let path = `${folder ? `${folder}/` : ''}${base}.${extension}`;
+            for (let n = 2; usedPaths.has(path); n++) path = `${folder ? `${folder}/` : ''}${base}-${n}.${extension}`;
+            usedPaths.add(path);
+            paths.set(frame.id, path);
         });
 
+        let done = 0;
+        const manifest: Record<string, unknown>[] = [];
+        const addToZip = async (frame: PortfolioFrame, blob: Blob, width: number, height: number) => {
+            const source = sourceById.get(frame.sourceId);
+            const meta: StillMetadata = {
+                sourceName: source?.name ?? 'video',
+                timestamp: frame.timestamp,
+                videoWidth: source?.width ?? width,
+                videoHeight: source?.height ?? height,
+                captureDate: new Date((source ? sourceRecordingStart(source) : Date.now()) + frame.timestamp * 1000),
+                artist: settings.artist.trim(),
+                copyright: settings.copyright.trim(),
+                rating: frame.rejected ? -1 : frame.rating,
+                label: frame.label && COLOR_LABELS[frame.label].xmp
+            };
+            const path = paths.get(frame.id)!;
+            zip.file(path, settings.embedMetadata ? await embedStillMetadata(blob, settings.format, width, height, meta) : blob);
+            manifest.push({
+                file: path,
+                source: meta.sourceName,
+                timestamp: Number(frame.timestamp.toFixed(3)),
+                captureDate: meta.captureDate.toISOString(),
+                width,
+                height,
+                videoWidth: meta.videoWidth,
+                videoHeight: meta.videoHeight,
+                quality: frame.quality?.score ?? null,
+                crop: frame.crop ?? null,
+                adjustments: frame.adjustments ?? null,
+                stackedFrames: frame.stackedFrames ?? null,
+                rating: frame.rating ?? null,
+                label: frame.label ?? null
+            });
+            done++;
+            setExportProgress({ done, total: exportFrames.length });
+        };
+
+        for (const source of sources) {
+            const sourceFrames = exportFrames
+                .filter(f => f.sourceId === source.id)
+                .sort((a, b) => a.timestamp - b.timestamp);
+            if (sourceFrames.length === 0) continue;
+
+            // Stacked stills can't be re-read as a single source frame, so they always export from their merged image
+            const decodable = sourceFrames.filter(f => !f.stackedFrames);
+            const exported = new Set<string>();
+            if (decodable.length > 0) try {
+                await captureFramesAt(source.file, decodable.map(f => f.timestamp), async (image, width, height, index) => {
+                    const frame = decodable[index];
+                    const encoded = await encodeForExport(image, width, height, settings, frame);
+                    if (encoded) {
+                        await addToZip(frame, encoded.blob, encoded.width, encoded.height);
+                        exported.add(frame.id);
+                    }
+                });
+            } catch (e) {
+                console.warn(`Could not re-read ${source.name}, exporting from extracted stills:`, e);
+                notify('warning', `${source.name}: ${t.warnExportFallback}`);
+            }
+
+            // Anything the source could not provide is re-encoded from the extracted still instead
+            for (const frame of sourceFrames.filter(f => !exported.has(f.id))) {
+                const bitmap = await createImageBitmap(frame.blob);
+                const encoded = await encodeForExport(bitmap, bitmap.width, bitmap.height, settings, frame);
+                const fallback = { blob: frame.blob, width: bitmap.width, height: bitmap.height };
+                bitmap.close();
+                const { blob, width, height } = encoded ?? fallback;
+                await addToZip(frame, blob, width, height);
+            }
+
+            // Clips share their still's name; a clip that fails to render leaves the still on its own
+            const clipFrames = sourceFrames.filter(f => f.clip);
+            if (clipFrames.length === 0) continue;
+            const video = await loadVideoElement(source.file);
+            try {
+                for (const frame of clipFrames) {
+                    const frameClip = frame.clip!;
+                    try {
+                        const clip = await renderClip(video, frame.timestamp, frameClip, frame);
+                        if (!clip) continue;
+                        const stillPath = paths.get(frame.id)!;
+                        const clipExtension = CLIP_FORMATS[frameClip.format].extension;
+                        const stem = stillPath.slice(0, -extension.length - 1);
+                        const clipPath = clipExtension === extension ? `${stem}-clip.${clipExtension}` : `${stem}.${clipExtension}`;
+                        zip.file(clipPath, clip);
+                        const entry = manifest.find(m => m.file === stillPath);
+                        if (entry) entry.clip = clipPath;
+                    } catch (e) {
+                        console.warn(`Could not render the clip for ${paths.get(frame.id)}:`, e);
+                    }
+                }
+            } finally {
+                releaseVideoElement(video);
+            }
+        }
+
+        zip.file('manifest.json', JSON.stringify({
+            generator: METADATA_SOFTWARE,
+            exportedAt: new Date().toISOString(),
+            format: settings.format,
+            artist: settings.artist.trim() || null,
+            copyright: settings.copyright.trim() || null,
+            stills: manifest
+        }, null, 2));
+
         const content = await zip.generateAsync({ type: "blob" });
-        const url = URL.createObjectURL(content);
-        
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = "portfolio_stills.zip";
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        downloadBlob(content, "portfolio_stills.zip");
 
     } catch (error) {
         console.error("Error creating zip:", error);
-        alert(t.errZip);
+        notify('error', t.errZip);
     } finally {
         setIsZipping(false);
+        setExportProgress(null);
     }
   };
 
   // Cleanup ONLY on true component unmount, not on every frames state change
   useEffect(() => {
     return () => {
-      framesRef.current.forEach(f => URL.revokeObjectURL(f.url));
+      liveUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+      releaseSourceVideo();
     };
   }, []);
 
   // Navigation logic
-  const currentIndex = expandedFrame ? frames.findIndex(f => f.id === expandedFrame.id) : -1;
+  const currentIndex = expandedFrame ? visibleFrames.findIndex(f => f.id === expandedFrame.id) : -1;
   const hasPrev = currentIndex > 0;
-  const hasNext = currentIndex !== -1 && currentIndex < frames.length - 1;
+  const hasNext = currentIndex !== -1 && currentIndex < visibleFrames.length - 1;
 
   const goToPrev = useCallback(() => {
-      if (hasPrev) setExpandedFrame(frames[currentIndex - 1]);
-  }, [hasPrev, currentIndex, frames]);
+      if (hasPrev) setExpandedFrame(visibleFrames[currentIndex - 1]);
+  }, [hasPrev, currentIndex, visibleFrames]);
 
   const goToNext = useCallback(() => {
-      if (hasNext) setExpandedFrame(frames[currentIndex + 1]);
-  }, [hasNext, currentIndex, frames]);
+      if (hasNext) setExpandedFrame(visibleFrames[currentIndex + 1]);
+  }, [hasNext, currentIndex, visibleFrames]);
 
   // Handle keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (!expandedFrame) return;
+      // An open editor owns the keyboard until it is applied or cancelled
+      if (editTool) {
+          if (e.key === 'Escape') setEditTool(null);
+          return;
+      }
+
+      // Lightroom-style culling: 1-5 rate (0 clears), 6-9 toggle color labels, P picks, X rejects, U unflags.
+      // Keys typed into a form control (e.g. the stack size select) belong to that control
+      const inFormControl = e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement;
+      if (!e.ctrlKey && !e.metaKey && !e.altKey && !inFormControl) {
+          const key = e.key.toLowerCase();
+          const label = COLOR_LABEL_ORDER.find(l => COLOR_LABELS[l].key === key);
+          if (/^[0-5]$/.test(key)) flagFrame(expandedFrame.id, { rating: Number(key) || undefined });
+          else if (label) toggleLabel(expandedFrame, label);
+          else if (key === 'p') flagFrame(expandedFrame.id, { selected: true, rejected: false });
+          else if (key === 'x') toggleRejected(expandedFrame);
+          else if (key === 'u') flagFrame(expandedFrame.id, { selected: false, rejected: false });
+          if (label || /^[0-5pxu]$/.test(key)) return;
+      }
       
       switch (e.key) {
           case 'Escape':
-              setExpandedFrame(null);
+              if (stepPreview) discardStepPreview();
+              else setExpandedFrame(null);
               break;
-          case 'ArrowLeft':
-              goToPrev();
+          case ',':
+              stepFrame({ frames: -1 });
               break;
+          case '.':
+              stepFrame({ frames: 1 });
+              break;
+          case 'ArrowLeft':
           case 'ArrowRight':
-              goToNext();
+              // Arrows follow the on-screen side of the prev/next buttons, which swap in right-to-left layouts
+              if ((e.key === 'ArrowRight') === (LANGUAGES[currentLang].dir === 'ltr')) goToNext();
+              else goToPrev();
               break;
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [expandedFrame, goToPrev, goToNext]);
+  }, [expandedFrame, editTool, stepPreview, goToPrev, goToNext, stepFrame, currentLang]);
+
+  // Undo and redo work everywhere except while typing or inside an open editor
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (!(e.ctrlKey || e.metaKey) || (key !== 'z' && key !== 'y')) return;
+      if (editTool || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      e.preventDefault();
+      stepHistory(key === 'y' || e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editTool, stepHistory]);
+
+  // Leaving a frame (navigation, close, delete) abandons unapplied edits and stepped previews
+  useEffect(() => {
+      setEditTool(null);
+      discardStepPreview();
+      // The stepping video stays open while browsing, and is released once the lightbox closes
+      if (!expandedFrame) releaseSourceVideo();
+  }, [expandedFrame?.id]);
+
+  // --- Session Persistence ---
+
+  const sessionSettings = useMemo<SessionSettings>(() => ({
+      framepSecond, extractionMode, sceneSensitivity, minQuality, showHidden, groupSimilar,
+      groupDistance, sortMode, facesOnly, ratingFilter, labelFilter, hideRejected, galleryLayout, exportSettings
+  }), [framepSecond, extractionMode, sceneSensitivity, minQuality, showHidden, groupSimilar, groupDistance, sortMode, facesOnly, ratingFilter, labelFilter, hideRejected, galleryLayout, exportSettings]);
+
+  // Saves at most every SESSION_SAVE_INTERVAL, always writing the latest state
+  useEffect(() => {
+      if (!sessionRef.current || sources.length === 0) return;
+      pendingSaveRef.current = { frames, sources, settings: sessionSettings };
+      if (saveTimerRef.current !== null) return;
+      saveTimerRef.current = window.setTimeout(async () => {
+          saveTimerRef.current = null;
+          const session = sessionRef.current;
+          const pending = pendingSaveRef.current;
+          pendingSaveRef.current = null;
+          if (!session || !pending) return;
+          try {
+              const outOfSpace = await saveSession(
+                  {
+                      id: session.id,
+                      createdAt: session.createdAt,
+                      updatedAt: Date.now(),
+                      sources: pending.sources.map(({ file, ...source }) => source),
+                      frames: pending.frames.map(({ url, blob, thumbnail, previewUrl, ...frame }) => frame),
+                      settings: pending.settings
+                  },
+                  pending.frames,
+                  new Map(pending.sources.map(s => [s.id, s.file])),
+                  session.stored
+              );
+              if (outOfSpace) notify('warning', t.warnSessionQuota);
+          } catch (e) {
+              console.warn("Could not save session:", e);
+          }
+      }, SESSION_SAVE_INTERVAL);
+  }, [frames, sources, sessionSettings]);
+
+  const refreshStoredSessions = async () => {
+      try {
+          setStoredSessions(await listSessions());
+          setStorageEstimate(await getStorageEstimate());
+      } catch (e) {
+          console.warn("Could not read saved sessions:", e);
+      }
+  };
+
+  const isLanding = sources.length === 0 && !isProcessing && frames.length === 0;
+  useEffect(() => {
+      if (isLanding) refreshStoredSessions();
+  }, [isLanding]);
+
+  const resumeSession = async (id: string) => {
+      try {
+          const session = await loadSession(id);
+          if (!session) {
+              refreshStoredSessions();
+              return;
+          }
+          // A run interrupted by the reload cannot continue; its frames so far are kept
+          const restoredSources: VideoSource[] = session.sources.flatMap(source => {
+              const file = session.files.get(source.id);
+              if (!file) return [];
+              const status = source.status === 'queued' || source.status === 'processing' ? 'cancelled' : source.status;
+              return [{ ...source, file, status }];
+          });
+          const restoredFrames: PortfolioFrame[] = [];
+          for (const frame of session.frames) {
+              const blob = session.blobs.get(frame.id);
+              if (!blob || !restoredSources.some(s => s.id === frame.sourceId)) continue;
+              // Sessions saved before thumbnails existed get them made now; the full still stays on disk
+              const thumbnail = session.thumbnails.get(frame.id) ?? await createThumbnail(blob).catch(() => null) ?? blob;
+              diskBlobs.add(blob);
+              restoredFrames.push({ ...frame, blob, thumbnail, url: URL.createObjectURL(thumbnail) });
+          }
+
+          const { settings } = session;
+          setFramepSecond(settings.framepSecond);
+          setExtractionMode(settings.extractionMode);
+          setSceneSensitivity(settings.sceneSensitivity);
+          setMinQuality(settings.minQuality);
+          setShowHidden(settings.showHidden);
+          setGroupSimilar(settings.groupSimilar);
+          setGroupDistance(settings.groupDistance);
+          setSortMode(settings.sortMode);
+          setFacesOnly(settings.facesOnly);
+          // Sessions saved before culling existed have no culling filters
+          setRatingFilter(settings.ratingFilter ?? 0);
+          setLabelFilter(settings.labelFilter ?? null);
+          setHideRejected(settings.hideRejected ?? false);
+          setGalleryLayout(settings.galleryLayout);
+          setExportSettings({ ...DEFAULT_EXPORT_SETTINGS, ...settings.exportSettings });
+
+          sessionRef.current = {
+              id: session.id,
+              createdAt: session.createdAt,
+              stored: { blobs: new Map(restoredFrames.map(f => [f.id, f.blob])), files: new Set(session.files.keys()), skipFiles: false }
+          };
+          setSources(restoredSources);
+          setFrames(restoredFrames);
+          clearHistory();
+          restoredFrames.filter(f => f.crop || f.adjustments).forEach(renderPreview);
+      } catch (e) {
+          console.warn("Could not resume session:", e);
+          notify('error', t.errSession);
+      }
+  };
+
+  const discardStoredSession = async (id: string) => {
+      try {
+          await deleteSession(id);
+      } catch (e) {
+          console.warn("Could not delete saved session:", e);
+      }
+      refreshStoredSessions();
+  };
 
   const selectedCount = frames.filter(f => f.selected).length;
+  const ratedFrames = frames.filter(f => !f.rejected && (f.rating ?? 0) >= exportSettings.minRating);
+  // What a ZIP export contains: the selection, or every frame rated at least minRating stars
+  const exportFrames = exportSettings.scope === 'rated' ? ratedFrames : frames.filter(f => f.selected);
+  // Compare takes the selected frames in gallery order; frames deleted meanwhile drop out
+  const compareCandidates = visibleFrames.filter(f => f.selected);
+  const compareFrames = (compareIds ?? []).flatMap(id => frames.filter(f => f.id === id));
+  // The timeline follows the chosen video, or the first one whose duration is known
+  const timelineSource = sources.find(s => s.id === timelineSourceId && s.duration) ?? sources.find(s => s.duration);
   
   // --- Renderers ---
 
-  if (!videoFile && !isProcessing && frames.length === 0) {
+  if (isTrimming) {
+    return (
+      <>
+        <SegmentPicker
+          sources={sources}
+          onUpdate={updateSource}
+          onStart={() => {
+              setIsTrimming(false);
+              extractQueue(sources);
+          }}
+          onCancel={() => {
+              setSources([]);
+              setIsTrimming(false);
+          }}
+          locale={currentLang}
+          t={t}
+        />
+        <ToastStack toasts={toasts} onDismiss={dismissToast} t={t} />
+      </>
+    );
+  }
+
+  if (isLanding) {
     return (
       <div className="min-h-screen bg-neutral-950 text-white flex flex-col items-center justify-center p-6 overflow-y-auto relative">
-        <div className="absolute top-6 right-6">
-            <LanguageSelect currentLang={currentLang} onLanguageChange={setCurrentLang} />
+        <div className="absolute top-6 end-6">
+            <LanguageSelect currentLang={currentLang} onLanguageChange={changeLanguage} label={t.selectLanguage} />
         </div>
         <div className="max-w-2xl w-full text-center space-y-8 my-8">
           <div className="space-y-4">
@@ -583,16 +6634,73 @@ const App = () => {
           </div>
 
           {/* FIXED CONFIGURATION SECTION */}
-          <div className="flex flex-col space-y-2 mb-4 items-center">
-            <label className="text-neutral-400 text-sm">Frames per Second</label>
-            <input 
-              type="number" 
-              value={framepSecond} 
-              onChange={handleFpsChange} 
-              step={1} 
-              min={0.01} 
-              className="bg-neutral-800 text-white rounded p-2 w-32 text-center" 
-            />
+          <div className="flex flex-col space-y-4 mb-4 items-center">
+            <div className="flex flex-col space-y-2 items-center">
+              <label className="text-neutral-400 text-sm">{t.extractionMode}</label>
+              <div className="inline-flex rounded-lg bg-neutral-900 border border-neutral-800 p-1">
+                {(['interval', 'scene'] as ExtractionMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setExtractionMode(mode)}
+                    className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${extractionMode === mode ? 'bg-neutral-700 text-white' : 'text-neutral-400 hover:text-neutral-200'}`}
+                  >
+                    {mode === 'interval' ? t.modeInterval : t.modeScene}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {extractionMode === 'interval' ? (
+              <div className="flex flex-col space-y-2 items-center">
+                <label className="text-neutral-400 text-sm">{t.framesPerSecond}</label>
+                <input 
+                  type="number" 
+                  value={framepSecond} 
+                  onChange={handleFpsChange} 
+                  step={1} 
+                  min={0.01} 
+                  className="bg-neutral-800 text-white rounded p-2 w-32 text-center" 
+                />
+              </div>
+            ) : (
+              <div className="flex flex-col space-y-2 items-center">
+                <label className="text-neutral-400 text-sm">{t.sceneSensitivity}</label>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={sceneSensitivity}
+                    onChange={(e) => setSceneSensitivity(Number(e.target.value))}
+                    className="w-48 accent-blue-500"
+                  />
+                  <span className="font-mono text-sm text-neutral-300 w-8">{sceneSensitivity}</span>
+                </div>
+                <p className="text-neutral-500 text-xs max-w-xs">{t.sceneHint}</p>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-neutral-400 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={trimBeforeExtract}
+                onChange={(e) => setTrimBeforeExtract(e.target.checked)}
+                className="accent-blue-500"
+              />
+              <span>{t.trimBeforeExtract}</span>
+            </label>
+
+            <label className="flex items-center gap-2 text-neutral-400 text-sm">
+              <span>{t.memoryBudget}</span>
+              <select
+                value={memoryBudget}
+                onChange={(e) => changeMemoryBudget(Number(e.target.value))}
+                className="bg-neutral-800 text-neutral-200 rounded-md px-2 py-1 outline-none"
+              >
+                {MEMORY_BUDGETS_MB.map(budget => <option key={budget} value={budget}>{formatBytes(budget * 1024 * 1024)}</option>)}
+              </select>
+            </label>
           </div>
           
           <div
@@ -615,6 +6723,7 @@ const App = () => {
             <input
               type="file"
               accept="video/*"
+              multiple
               className="hidden"
               id="file-upload"
               onChange={onFileSelect}
@@ -626,6 +6735,17 @@ const App = () => {
               <span className="sr-only">{t.dragDrop}</span>
             </label>
           </div>
+
+          {storedSessions.length > 0 && (
+            <SessionList
+              sessions={storedSessions}
+              storage={storageEstimate}
+              onResume={resumeSession}
+              onDiscard={discardStoredSession}
+              locale={currentLang}
+              t={t}
+            />
+          )}
           
           {/* Contribution Section */}
           <div className="pt-6 flex flex-col items-center space-y-4">
@@ -644,18 +6764,40 @@ const App = () => {
           </div>
 
         </div>
+        <ToastStack toasts={toasts} onDismiss={dismissToast} t={t} />
       </div>
     );
   }
 
-  if (isProcessing) {
+  const processingLabels = { pause: t.pause, resume: t.resume, cancel: t.cancel };
+  const statusLabels: Record<VideoSourceStatus, string> = {
+      queued: t.statusQueued,
+      processing: t.processing,
+      done: t.statusDone,
+      error: t.statusError,
+      cancelled: t.statusCancelled
+  };
+  const hasReports = sources.some(s => s.report);
+  const reportDialog = isReportOpen && (
+      <ExtractionReportDialog
+          sources={sources}
+          statusLabels={statusLabels}
+          onCropToPicture={cropToPicture}
+          locale={currentLang}
+          t={t}
+          onClose={() => setIsReportOpen(false)}
+      />
+  );
+
+  // Once the first frame arrives, the gallery takes over and keeps filling while extraction continues
+  if (isProcessing && frames.length === 0) {
     return (
       <div className="min-h-screen bg-neutral-950 text-white flex flex-col items-center justify-center p-6">
         <div className="max-w-md w-full text-center space-y-8">
           <div className="relative">
-             <Loader2 className="w-12 h-12 text-blue-600 animate-spin mx-auto" />
+             <Loader2 className={`w-12 h-12 text-blue-600 mx-auto ${isPaused ? '' : 'animate-spin'}`} />
           </div>
-          <h2 className="text-2xl font-light text-neutral-200 animate-pulse">{t.processing}</h2>
+          <h2 className={`text-2xl font-light text-neutral-200 ${isPaused ? '' : 'animate-pulse'}`}>{isPaused ? t.paused : t.processing}</h2>
           <div className="space-y-3">
             <div className="h-1.5 w-full bg-neutral-800 rounded-full overflow-hidden">
               <div
@@ -665,36 +6807,152 @@ const App = () => {
             </div>
             <p className="text-neutral-500 text-sm font-mono tracking-wider">{progress}% {t.complete}</p>
           </div>
+          {sources.length > 1 && <SourceQueue sources={sources} statusLabels={statusLabels} />}
+          <ProcessingControls isPaused={isPaused} onTogglePause={togglePause} onCancel={cancelProcessing} labels={processingLabels} />
         </div>
+        {reportDialog}
+        <ToastStack toasts={toasts} onDismiss={dismissToast} t={t} />
       </div>
     );
   }
 
+  // A gallery card: a single frame, a member of an open near-duplicate group, or a collapsed stack
+  const renderGalleryItem = ({ frame, group, stacked }: GalleryItem) => (
+    <div
+      key={frame.id}
+      className={`
+        relative group aspect-[3/4] rounded-lg overflow-hidden bg-neutral-900 cursor-pointer border transition-all duration-200
+        ${frame.selected ? 'border-white/40 ring-1 ring-white/10' : frame.rejected ? 'border-transparent opacity-40 grayscale hover:opacity-70' : 'border-transparent opacity-80 hover:opacity-100'}
+        ${stacked ? 'shadow-[5px_5px_0_0_rgb(38,38,38),10px_10px_0_0_rgb(23,23,23)]' : ''}
+        ${group && !stacked ? 'outline outline-1 outline-offset-2 outline-blue-500/40' : ''}
+      `}
+      onClick={() => {
+          if (isZipping) return;
+          if (stacked && group) toggleGroupOpen(group.id);
+          else setExpandedFrame(frame);
+      }}
+    >
+      <img
+        src={frame.previewUrl ?? frame.url}
+        alt={formatMessage(t.frameAt, { time: frame.timestamp }, currentLang)}
+        className="w-full h-full object-contain"
+        loading="lazy"
+        onError={(e) => {
+            // Visual indicator if frame breaks, though fix above should prevent this.
+            (e.target as HTMLImageElement).style.opacity = '0.3';
+        }}
+      />
+
+      {frame.label && <div className={`absolute inset-x-0 top-0 h-1 ${COLOR_LABELS[frame.label].swatch}`} />}
+      {frame.rejected && (
+        <Ban className="absolute top-3 end-3 w-5 h-5 text-red-400 drop-shadow-lg group-hover:opacity-0 transition-opacity" />
+      )}
+
+      {/* Selection Indicator - Now a button to prevent bubble up */}
+      <button
+        className="absolute top-3 start-3 transition-transform duration-200 z-10 focus:outline-none"
+        onClick={(e) => {
+            e.stopPropagation();
+            toggleFrameSelection(frame.id);
+        }}
+      >
+         {frame.selected ? (
+           <CheckCircle className="w-6 h-6 text-white fill-black/50 drop-shadow-lg" />
+         ) : (
+           <div className="w-5 h-5 rounded-full border-2 border-white/50 bg-black/20 backdrop-blur-sm hover:border-white transition-colors"></div>
+         )}
+      </button>
+
+      {/* Near-duplicate stack badge: expands a collapsed stack, collapses an open one */}
+      {group && (
+        <button
+          className={`absolute top-3 start-11 z-10 flex items-center gap-1 text-[10px] font-mono font-semibold px-1.5 py-0.5 rounded backdrop-blur-md transition-colors ${stacked ? 'bg-blue-500/80 text-white' : 'bg-black/50 text-blue-300 hover:bg-black/80'}`}
+          onClick={(e) => {
+              e.stopPropagation();
+              toggleGroupOpen(group.id);
+          }}
+          title={stacked ? t.expandGroup : t.collapseGroup}
+        >
+          <Layers className="w-3 h-3" />
+          {stacked ? group.frameIds.length : `${group.frameIds.indexOf(frame.id) + 1}/${group.frameIds.length}`}
+        </button>
+      )}
+
+       {/* Hover Overlay & Actions */}
+      <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-black/40 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
+
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          if (!isZipping) deleteFrame(frame.id);
+        }}
+        className="absolute top-3 end-3 p-1.5 rounded-full bg-black/50 backdrop-blur-md text-white/70 hover:text-red-400 hover:bg-black/80 transition-all opacity-0 group-hover:opacity-100 transform translate-y-2 group-hover:translate-y-0"
+        title={t.deleteFrame}
+        disabled={isZipping}
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+
+      <div className="absolute bottom-3 start-3 flex flex-col items-start gap-1">
+          {frame.rating && <RatingStars rating={frame.rating} />}
+          <span className="text-[10px] font-medium text-white/90 font-mono bg-black/50 backdrop-blur-md px-1.5 py-0.5 rounded opacity-0 group-hover:opacity-100 transition-all transform translate-y-2 group-hover:translate-y-0">
+              {sources.length > 1 && !groupByVideo && `${sourceById.get(frame.sourceId)?.name ?? ''} · `}
+              {formatClock(frame.timestamp)}
+          </span>
+      </div>
+
+      {frame.quality && (
+        <div className="absolute bottom-3 end-3">
+          <QualityBadge quality={frame.quality} label={t.qualityLabel} />
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-neutral-950 text-white flex flex-col">
       {/* Top Banner */}
-      <TopBanner />
+      <TopBanner t={t} />
       {/* Fixed Header */}
       <header className="bg-neutral-900/80 backdrop-blur-md border-b border-neutral-800 sticky top-0 z-40 px-4 md:px-6 py-4 flex items-center justify-between">
-        <div className="flex items-center space-x-4">
+        <div className="flex items-center gap-4">
            <h1 className="text-lg md:text-xl font-medium tracking-tight text-neutral-100">{t.curatorTitle}</h1>
            <span className="text-neutral-700 hidden sm:block">|</span>
-           <p className="text-neutral-400 text-sm md:text-base">{selectedCount} {t.selectedCount}</p>
+           <p className="text-neutral-400 text-sm md:text-base">{formatMessage(t.selectedCount, { count: selectedCount }, currentLang)}</p>
         </div>
 
-        <div className="flex items-center space-x-2 md:space-x-3">
+        <div className="flex items-center gap-2 md:gap-3">
           <div className="hidden md:block">
-             <LanguageSelect currentLang={currentLang} onLanguageChange={setCurrentLang} />
+             <LanguageSelect currentLang={currentLang} onLanguageChange={changeLanguage} label={t.selectLanguage} />
           </div>
-          <span className="text-sm font-mono text-neutral-400 bg-neutral-800/80 px-3 py-1.5 rounded-full hidden sm:block mr-2">
-             {frames.length} {t.framesLeft}
+          <span className="text-sm font-mono text-neutral-400 bg-neutral-800/80 px-3 py-1.5 rounded-full hidden sm:block">
+             {formatMessage(t.framesLeft, { count: frames.length }, currentLang)}
+          </span>
+          <span className="text-xs font-mono text-neutral-500 hidden lg:block me-2" title={t.memoryBudget}>
+             {formatMessage(t.storageUsage, { memory: formatBytes(storageUsage.memory), disk: formatBytes(storageUsage.disk) }, currentLang)}
           </span>
           <button
-            onClick={() => selectAll(frames.some(f => !f.selected))}
+            onClick={() => stepHistory('undo')}
+            className="p-2 rounded-lg text-neutral-300 hover:bg-neutral-800 transition-colors disabled:opacity-40"
+            title={`${t.undo} (Ctrl+Z)`}
+            disabled={historyDepth.undo === 0 || isZipping}
+          >
+            <Undo2 className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => stepHistory('redo')}
+            className="p-2 rounded-lg text-neutral-300 hover:bg-neutral-800 transition-colors disabled:opacity-40"
+            title={`${t.redo} (Ctrl+Shift+Z)`}
+            disabled={historyDepth.redo === 0 || isZipping}
+          >
+            <Redo2 className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => selectAll(visibleFrames.some(f => !f.selected))}
             className="px-3 py-2 text-sm font-medium text-neutral-400 hover:text-white transition-colors whitespace-nowrap"
             disabled={isZipping}
           >
-            {frames.some(f => !f.selected) ? t.selectAll : t.deselectAll}
+            {visibleFrames.some(f => !f.selected) ? t.selectAll : t.deselectAll}
           </button>
           <button
             onClick={handleRerun}
@@ -705,12 +6963,36 @@ const App = () => {
             <RefreshCw className="w-5 h-5 sm:hidden" />
             <span className="hidden sm:inline">{t.startOver}</span>
           </button>
+          <button
+            onClick={() => setIsReportOpen(true)}
+            className="p-2 rounded-lg text-neutral-300 hover:bg-neutral-800 transition-colors disabled:opacity-40"
+            title={t.reportTitle}
+            disabled={!hasReports}
+          >
+            <ClipboardList className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setCompareIds(compareCandidates.map(f => f.id))}
+            className="p-2 rounded-lg text-neutral-300 hover:bg-neutral-800 transition-colors disabled:opacity-40"
+            title={`${t.compare} (2-${COMPARE_MAX_FRAMES})`}
+            disabled={isZipping || compareCandidates.length < 2 || compareCandidates.length > COMPARE_MAX_FRAMES}
+          >
+            <Columns2 className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setIsSheetOpen(true)}
+            className="p-2 rounded-lg text-neutral-300 hover:bg-neutral-800 transition-colors disabled:opacity-40"
+            title={t.contactSheet}
+            disabled={isZipping || isRenderingSheet || visibleFrames.length === 0}
+          >
+            {isRenderingSheet ? <Loader2 className="w-5 h-5 animate-spin" /> : <LayoutGrid className="w-5 h-5" />}
+          </button>
           <button
             onClick={handleDownload}
-            disabled={selectedCount === 0 || isZipping}
+            disabled={frames.length === 0 || isZipping}
             className={`
-              flex items-center space-x-2 px-4 md:px-6 py-2 rounded-lg text-sm font-medium transition-all
-              ${selectedCount > 0 && !isZipping
+              flex items-center gap-2 px-4 md:px-6 py-2 rounded-lg text-sm font-medium transition-all
+              ${frames.length > 0 && !isZipping
                 ? 'bg-white text-black hover:bg-neutral-200'
                 : 'bg-neutral-800 text-neutral-500 cursor-not-allowed'}
             `}
@@ -720,86 +7002,265 @@ const App = () => {
             ) : (
                 <Download className="w-4 h-4" />
             )}
-            <span className="hidden sm:inline">{isZipping ? t.zipping : t.downloadSelected}</span>
+            <span className="hidden sm:inline">
+              {isZipping ? `${t.zipping}${exportProgress ? ` ${exportProgress.done}/${exportProgress.total}` : ''}` : t.downloadSelected}
+            </span>
             <span className="sm:hidden">{isZipping ? '...' : t.download}</span>
           </button>
         </div>
       </header>
 
-      {/* Main Gallery */}
-      <main className="flex-1 p-4 md:p-6 overflow-y-auto">
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-          {frames.map((frame) => (
-            <div
-              key={frame.id}
-              className={`
-                relative group aspect-[3/4] rounded-lg overflow-hidden bg-neutral-900 cursor-pointer border transition-all duration-200
-                ${frame.selected ? 'border-white/40 ring-1 ring-white/10' : 'border-transparent opacity-80 hover:opacity-100'}
-              `}
-              onClick={() => !isZipping && setExpandedFrame(frame)}
-            >
-              <img
-                src={frame.url}
-                alt={`Frame at ${frame.timestamp}s`}
-                className="w-full h-full object-contain"
-                loading="lazy"
-                onError={(e) => {
-                    // Visual indicator if frame breaks, though fix above should prevent this.
-                    (e.target as HTMLImageElement).style.opacity = '0.3';
-                }}
-              />
+      {/* Extraction still running: frames keep streaming into the gallery below */}
+      {isProcessing && (
+        <div className="px-4 md:px-6 py-2 border-b border-neutral-800/60 flex items-center gap-4 text-sm text-neutral-400">
+          {isPaused ? <Pause className="w-4 h-4" /> : <Loader2 className="w-4 h-4 animate-spin text-blue-500" />}
+          <span className="whitespace-nowrap hidden sm:inline">{isPaused ? t.paused : t.processing}</span>
+          {sources.length > 1 && (
+            <span className="whitespace-nowrap font-mono text-neutral-500">
+              {sources.filter(s => s.status !== 'queued' && s.status !== 'processing').length + 1}/{sources.length}
+            </span>
+          )}
+          <div className="flex-1 h-1.5 bg-neutral-800 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all duration-300 ease-out" style={{ width: `${progress}%` }} />
+          </div>
+          <span className="font-mono">{progress}%</span>
+          <ProcessingControls isPaused={isPaused} onTogglePause={togglePause} onCancel={cancelProcessing} labels={processingLabels} />
+        </div>
+      )}
 
-              {/* Selection Indicator - Now a button to prevent bubble up */}
-              <button
-                className="absolute top-3 left-3 transition-transform duration-200 z-10 focus:outline-none"
-                onClick={(e) => {
-                    e.stopPropagation();
-                    toggleFrameSelection(frame.id);
-                }}
-              >
-                 {frame.selected ? (
-                   <CheckCircle className="w-6 h-6 text-white fill-black/50 drop-shadow-lg" />
-                 ) : (
-                   <div className="w-5 h-5 rounded-full border-2 border-white/50 bg-black/20 backdrop-blur-sm hover:border-white transition-colors"></div>
-                 )}
-              </button>
+      {timelineSource && (
+        <Timeline
+          sources={sources.filter(s => s.duration)}
+          source={timelineSource}
+          frames={visibleFrames.filter(f => f.sourceId === timelineSource.id)}
+          isBusy={isCapturing || isStepping}
+          onSourceChange={setTimelineSourceId}
+          onOpenFrame={setExpandedFrame}
+          onCapture={captureFrameAt}
+          t={t}
+        />
+      )}
 
-               {/* Hover Overlay & Actions */}
-              <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-black/40 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
+      {/* Filter Bar */}
+      <div className="px-4 md:px-6 py-2 border-b border-neutral-800/60 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-neutral-400">
+        <label className="flex items-center gap-3" title={t.hideLowQuality}>
+          <span className="whitespace-nowrap">{t.minQuality}</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={minQuality}
+            onChange={(e) => setMinQuality(Number(e.target.value))}
+            className="w-32 accent-blue-500"
+          />
+          <span className="font-mono text-neutral-300 w-8">{minQuality}</span>
+        </label>
+        {(hiddenCount > 0 || showHidden) && minQuality > 0 && (
+          <button
+            onClick={() => setShowHidden(v => !v)}
+            className="flex items-center gap-1.5 hover:text-white transition-colors"
+            title={showHidden ? t.hideLowQuality : t.showHidden}
+          >
+            {showHidden ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+            <span>{showHidden ? t.hideLowQuality : formatMessage(t.hiddenCount, { count: hiddenCount }, currentLang)}</span>
+          </button>
+        )}
+        <button
+          onClick={analyzeFaces}
+          disabled={faceProgress !== null || isZipping}
+          className="flex items-center gap-1.5 hover:text-white disabled:cursor-wait transition-colors"
+        >
+          {faceProgress ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScanFace className="w-4 h-4" />}
+          <span>{faceProgress ? `${t.detectingFaces} ${faceProgress.done}/${faceProgress.total}` : t.detectFaces}</span>
+        </button>
+        {hasFaceAnalysis && (
+          <button
+            onClick={() => setFacesOnly(v => !v)}
+            className={`transition-colors ${facesOnly ? 'text-blue-400' : 'hover:text-white'}`}
+          >
+            {t.hasFaces}
+          </button>
+        )}
+        <label className="flex items-center gap-1.5">
+          <Star className="w-4 h-4" />
+          <select
+            value={ratingFilter}
+            onChange={(e) => setRatingFilter(Number(e.target.value))}
+            className="bg-transparent text-neutral-300 outline-none cursor-pointer"
+            aria-label={t.minRating}
+          >
+            <option value={0}>{t.anyRating}</option>
+            {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>≥ {'★'.repeat(n)}</option>)}
+          </select>
+        </label>
+        <div className="flex items-center gap-1.5" role="group" aria-label={t.colorLabel}>
+          {COLOR_LABEL_ORDER.map(label => (
+            <button
+              key={label}
+              onClick={() => setLabelFilter(current => current === label ? null : label)}
+              className={`w-3.5 h-3.5 rounded-full transition-opacity ${COLOR_LABELS[label].swatch} ${labelFilter === label ? 'ring-2 ring-white' : 'opacity-40 hover:opacity-100'}`}
+              title={t[COLOR_LABELS[label].nameKey]}
+            />
+          ))}
+        </div>
+        <button
+          onClick={() => setHideRejected(v => !v)}
+          className={`flex items-center gap-1.5 transition-colors ${hideRejected ? 'text-blue-400' : 'hover:text-white'}`}
+        >
+          <Ban className="w-4 h-4" />
+          <span>{t.hideRejected}</span>
+        </button>
+        {sources.length > 1 && (
+          <label className="flex items-center gap-1.5">
+            <Film className="w-4 h-4" />
+            <select
+              value={galleryLayout}
+              onChange={(e) => setGalleryLayout(e.target.value as GalleryLayout)}
+              className="bg-transparent text-neutral-300 outline-none cursor-pointer"
+              aria-label={t.galleryLayout}
+            >
+              <option value="byVideo">{t.layoutByVideo}</option>
+              <option value="merged">{t.layoutMerged}</option>
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-1.5">
+          <ArrowUpDown className="w-4 h-4" />
+          <select
+            value={sortMode}
+            onChange={(e) => setSortMode(e.target.value as FrameSortMode)}
+            className="bg-transparent text-neutral-300 outline-none cursor-pointer"
+            aria-label={t.sortBy}
+          >
+            <option value="time">{t.sortTime}</option>
+            <option value="quality">{t.sortQuality}</option>
+            <option value="faces">{t.sortFaces}</option>
+          </select>
+        </label>
+        <button
+          onClick={() => setGroupSimilar(v => !v)}
+          className={`flex items-center gap-1.5 transition-colors ${groupSimilar ? 'text-blue-400' : 'hover:text-white'}`}
+        >
+          <Layers className="w-4 h-4" />
+          <span>{t.groupSimilar}</span>
+        </button>
+        {groupSimilar && (
+          <>
+            <label className="flex items-center gap-3">
+              <span className="whitespace-nowrap">{t.similarityTolerance}</span>
+              <input
+                type="range"
+                min={0}
+                max={20}
+                step={1}
+                value={groupDistance}
+                onChange={(e) => setGroupDistance(Number(e.target.value))}
+                className="w-24 accent-blue-500"
+              />
+              <span className="font-mono text-neutral-300 w-6">{groupDistance}</span>
+            </label>
+            <button
+              onClick={keepBestOfGroups}
+              disabled={stackedGroups.length === 0 || isZipping}
+              className="px-3 py-1 rounded-md bg-neutral-800 text-neutral-200 hover:bg-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              {t.keepBest} ({stackedGroups.length})
+            </button>
+          </>
+        )}
+      </div>
 
+      {/* Main Gallery */}
+      <main className="flex-1 p-4 md:p-6 overflow-y-auto">
+        {frames.length === 0 && !isProcessing && (
+          <div className="h-full flex flex-col items-center justify-center gap-5 text-center">
+            {sources.some(s => s.report?.error) ? (
+              <div className="w-full max-w-lg bg-neutral-900/60 border border-neutral-800 rounded-2xl p-4">
+                <ExtractionReportList sources={sources} statusLabels={statusLabels} locale={currentLang} t={t} />
+              </div>
+            ) : (
+              <p className="max-w-md text-neutral-400">{t.warnBadVideo}</p>
+            )}
+            <div className="flex items-center gap-3">
+              {historyDepth.undo > 0 && (
+                <button
+                  onClick={() => stepHistory('undo')}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-neutral-200 bg-neutral-800 hover:bg-neutral-700 transition-colors"
+                >
+                  <Undo2 className="w-4 h-4" />
+                  <span>{t.undo}</span>
+                </button>
+              )}
               <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  if (!isZipping) deleteFrame(frame.id);
-                }}
-                className="absolute top-3 right-3 p-1.5 rounded-full bg-black/50 backdrop-blur-md text-white/70 hover:text-red-400 hover:bg-black/80 transition-all opacity-0 group-hover:opacity-100 transform translate-y-2 group-hover:translate-y-0"
-                title={t.deleteFrame}
-                disabled={isZipping}
+                onClick={handleRerun}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-white text-black hover:bg-neutral-200 transition-colors"
               >
-                <Trash2 className="w-4 h-4" />
+                {t.startOver}
               </button>
-
-              <div className="absolute bottom-3 left-3 opacity-0 group-hover:opacity-100 transition-all transform translate-y-2 group-hover:translate-y-0">
-                  <span className="text-[10px] font-medium text-white/90 font-mono bg-black/50 backdrop-blur-md px-1.5 py-0.5 rounded">
-                      {new Date(frame.timestamp * 1000).toISOString().substr(14, 5)}
-                  </span>
-              </div>
             </div>
-          ))}
-        </div>
+          </div>
+        )}
+        {groupByVideo ? (
+          sources.map(source => {
+            const items = galleryItems.filter(item => item.frame.sourceId === source.id);
+            if (items.length === 0) return null;
+            return (
+              <section key={source.id} className="mb-8">
+                <h2 className="text-sm font-medium text-neutral-300 mb-3 flex items-center gap-2">
+                  <Film className="w-4 h-4 text-neutral-500" />
+                  <span className="truncate">{source.name}</span>
+                  <span className="font-mono text-neutral-500">{items.length}</span>
+                </h2>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                  {items.map(renderGalleryItem)}
+                </div>
+              </section>
+            );
+          })
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+            {galleryItems.map(renderGalleryItem)}
+          </div>
+        )}
       </main>
 
       {/* Lightbox Modal */}
       {expandedFrame && (
         <div 
             className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 backdrop-blur-sm animate-in fade-in duration-200"
-            onClick={() => setExpandedFrame(null)}
+            onClick={() => { if (!editTool) setExpandedFrame(null); }}
         >
              {/* Top Right Controls */}
-             <div className="absolute top-4 right-4 flex items-center space-x-3 z-50" onClick={e => e.stopPropagation()}>
+             <div className="absolute top-4 end-4 flex items-center gap-3 z-50" onClick={e => e.stopPropagation()}>
                  <span className="text-sm font-mono text-neutral-300 bg-black/50 px-3 py-1.5 rounded-full backdrop-blur-md">
-                    {currentIndex + 1} / {frames.length}
+                    {currentIndex + 1} / {visibleFrames.length}
                  </span>
+                 <button
+                    className={`p-2 rounded-full backdrop-blur-md transition-colors ${editTool === 'crop' || expandedFrame.crop ? 'text-blue-400 bg-black/70' : 'text-neutral-400 hover:text-white bg-black/50'}`}
+                    onClick={() => setEditTool(tool => tool === 'crop' ? null : 'crop')}
+                    title={t.crop}
+                 >
+                     <Crop className="w-6 h-6" />
+                 </button>
+                 <button
+                    className={`p-2 rounded-full backdrop-blur-md transition-colors ${editTool === 'adjust' || expandedFrame.adjustments ? 'text-blue-400 bg-black/70' : 'text-neutral-400 hover:text-white bg-black/50'}`}
+                    onClick={() => setEditTool(tool => tool === 'adjust' ? null : 'adjust')}
+                    title={t.adjust}
+                 >
+                     <SlidersHorizontal className="w-6 h-6" />
+                 </button>
+                 <button
+                    className={`p-2 rounded-full backdrop-blur-md transition-colors ${editTool === 'clip' || expandedFrame.clip ? 'text-blue-400 bg-black/70' : 'text-neutral-400 hover:text-white bg-black/50'}`}
+                    onClick={() => {
+                        // An included clip opens with its own settings
+                        if (expandedFrame.clip) setClipSettings(expandedFrame.clip);
+                        setEditTool(tool => tool === 'clip' ? null : 'clip');
+                    }}
+                    title={t.clip}
+                 >
+                     <Clapperboard className="w-6 h-6" />
+                 </button>
                  <button
                     className="p-2 text-neutral-400 hover:text-red-400 bg-black/50 rounded-full backdrop-blur-md transition-colors"
                     onClick={() => deleteFrame(expandedFrame.id)}
@@ -817,14 +7278,34 @@ const App = () => {
              </div>
 
             {/* Top Bar Info */}
-             <div className="absolute top-4 left-4 flex items-center space-x-4 z-50" onClick={e => e.stopPropagation()}>
+             <div className="absolute top-4 start-4 flex items-center gap-4 z-50" onClick={e => e.stopPropagation()}>
                 <span className="text-sm font-mono text-neutral-300 bg-black/50 px-3 py-1.5 rounded-full backdrop-blur-md">
-                    {new Date(expandedFrame.timestamp * 1000).toISOString().substr(14, 5)}
+                    {sources.length > 1 && `${sourceById.get(expandedFrame.sourceId)?.name ?? ''} · `}
+                    {formatClock(expandedFrame.timestamp)}
                 </span>
+                {expandedFrame.quality && (
+                    <QualityBadge quality={expandedFrame.quality} label={t.qualityLabel} className="text-xs px-2.5 py-1.5 rounded-full" />
+                )}
+                {expandedFrame.stackedFrames && (
+                    <span className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm bg-black/50 text-neutral-300 backdrop-blur-md" title={t.stackedFrom}>
+                        <Sparkles className="w-4 h-4" />
+                        <span className="font-mono">×{expandedFrame.stackedFrames}</span>
+                    </span>
+                )}
+                {expandedFrame.faces && expandedFrame.faces.boxes.length > 0 && (
+                    <button
+                        onClick={() => setShowFaceBoxes(v => !v)}
+                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm backdrop-blur-md transition-colors ${showFaceBoxes ? 'bg-blue-500/80 text-white' : 'bg-black/50 text-neutral-300 hover:bg-black/70'}`}
+                        title={t.toggleFaceBoxes}
+                    >
+                        <ScanFace className="w-4 h-4" />
+                        <span className="font-mono">{expandedFrame.faces.boxes.length} · {expandedFrame.faces.score}</span>
+                    </button>
+                )}
                 <button
                     onClick={() => toggleFrameSelection(expandedFrame.id)}
                     className={`
-                        flex items-center space-x-2 px-3 py-1.5 rounded-full text-sm font-medium backdrop-blur-md transition-colors
+                        flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium backdrop-blur-md transition-colors
                         ${expandedFrame.selected 
                             ? 'bg-white text-black hover:bg-neutral-200' 
                             : 'bg-black/50 text-white border border-white/20 hover:bg-black/70'}
@@ -833,43 +7314,248 @@ const App = () => {
                     {expandedFrame.selected ? <CheckCircle className="w-4 h-4 fill-black/10" /> : <div className="w-4 h-4 rounded-full border-2 border-current" />}
                     <span>{expandedFrame.selected ? t.statusSelected : t.actionSelect}</span>
                 </button>
+                <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-black/50 backdrop-blur-md">
+                    <RatingStars rating={expandedFrame.rating} onRate={(rating) => flagFrame(expandedFrame.id, { rating })} title={`${t.rating} (0-5)`} />
+                    <div className="w-px h-4 bg-white/20" />
+                    {COLOR_LABEL_ORDER.map(label => (
+                        <button
+                            key={label}
+                            onClick={() => toggleLabel(expandedFrame, label)}
+                            className={`w-3.5 h-3.5 rounded-full transition-opacity ${COLOR_LABELS[label].swatch} ${expandedFrame.label === label ? 'ring-2 ring-white' : 'opacity-40 hover:opacity-100'}`}
+                            title={`${t[COLOR_LABELS[label].nameKey]}${COLOR_LABELS[label].key ? ` (${COLOR_LABELS[label].key})` : ''}`}
+                        />
+                    ))}
+                    <div className="w-px h-4 bg-white/20" />
+                    <button
+                        onClick={() => toggleRejected(expandedFrame)}
+                        className={`transition-colors ${expandedFrame.rejected ? 'text-red-400' : 'text-neutral-400 hover:text-white'}`}
+                        title={`${t.reject} (X)`}
+                    >
+                        <Ban className="w-4 h-4" />
+                    </button>
+                </div>
              </div>
 
             {/* Navigation Arrows */}
-            {hasPrev && (
+            {hasPrev && !editTool && (
                 <button
-                    className="absolute left-4 top-1/2 -translate-y-1/2 p-2 text-neutral-400 hover:text-white bg-black/30 hover:bg-black/60 rounded-full backdrop-blur-md transition-all z-50"
+                    className="absolute start-4 top-1/2 -translate-y-1/2 p-2 text-neutral-400 hover:text-white bg-black/30 hover:bg-black/60 rounded-full backdrop-blur-md transition-all z-50"
                     onClick={(e) => { e.stopPropagation(); goToPrev(); }}
                     title={t.prevFrame}
                 >
-                    <ChevronLeft className="w-8 h-8" />
+                    <ChevronLeft className="w-8 h-8 rtl:-scale-x-100" />
                 </button>
             )}
-            {hasNext && (
+            {hasNext && !editTool && (
                 <button
-                    className="absolute right-4 top-1/2 -translate-y-1/2 p-2 text-neutral-400 hover:text-white bg-black/30 hover:bg-black/60 rounded-full backdrop-blur-md transition-all z-50"
+                    className="absolute end-4 top-1/2 -translate-y-1/2 p-2 text-neutral-400 hover:text-white bg-black/30 hover:bg-black/60 rounded-full backdrop-blur-md transition-all z-50"
                     onClick={(e) => { e.stopPropagation(); goToNext(); }}
                     title={t.nextFrame}
                 >
-                    <ChevronRight className="w-8 h-8" />
+                    <ChevronRight className="w-8 h-8 rtl:-scale-x-100" />
                 </button>
             )}
 
+            {/* Frame Stepping: browse neighbouring source frames, then keep one. Playback controls are not mirrored in RTL. */}
+            {!editTool && (
+                <div
+                    dir="ltr"
+                    className="absolute bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-1 text-sm bg-black/60 backdrop-blur-md rounded-full px-2 py-1.5"
+                    onClick={e => e.stopPropagation()}
+                >
+                    <button onClick={() => stepFrame({ seconds: -STEP_SECONDS })} disabled={isStepping} className="p-1.5 rounded-full text-neutral-300 hover:text-white hover:bg-white/10 disabled:opacity-40 transition-colors" title={`-${STEP_SECONDS}s`}>
+                        <ChevronsLeft className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => stepFrame({ frames: -1 })} disabled={isStepping} className="p-1.5 rounded-full text-neutral-300 hover:text-white hover:bg-white/10 disabled:opacity-40 transition-colors" title={`${t.prevSourceFrame} (,)`}>
+                        <StepBack className="w-4 h-4" />
+                    </button>
+                    <span className="w-20 text-center font-mono text-neutral-300">
+                        {isStepping ? <Loader2 className="w-4 h-4 mx-auto animate-spin" /> : `${(stepPreview?.time ?? expandedFrame.timestamp).toFixed(3)}s`}
+                    </span>
+                    <button onClick={() => stepFrame({ frames: 1 })} disabled={isStepping} className="p-1.5 rounded-full text-neutral-300 hover:text-white hover:bg-white/10 disabled:opacity-40 transition-colors" title={`${t.nextSourceFrame} (.)`}>
+                        <StepForward className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => stepFrame({ seconds: STEP_SECONDS })} disabled={isStepping} className="p-1.5 rounded-full text-neutral-300 hover:text-white hover:bg-white/10 disabled:opacity-40 transition-colors" title={`+${STEP_SECONDS}s`}>
+                        <ChevronsRight className="w-4 h-4" />
+                    </button>
+                    {stepPreview && (
+                        <>
+                            <div className="w-px h-5 bg-white/20 mx-1" />
+                            <button onClick={replaceWithStep} className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-white text-black font-medium hover:bg-neutral-200 transition-colors">
+                                <Replace className="w-4 h-4" />
+                                <span>{t.replaceFrame}</span>
+                            </button>
+                            <button onClick={addStepAsNew} className="flex items-center gap-1.5 px-3 py-1 rounded-full text-neutral-200 hover:bg-white/10 transition-colors">
+                                <ImagePlus className="w-4 h-4" />
+                                <span>{t.addAsNew}</span>
+                            </button>
+                            <button onClick={discardStepPreview} className="p-1.5 rounded-full text-neutral-400 hover:text-white hover:bg-white/10 transition-colors" title={t.cancel}>
+                                <X className="w-4 h-4" />
+                            </button>
+                        </>
+                    )}
+                    {!stepPreview && (
+                        <>
+                            <div className="w-px h-5 bg-white/20 mx-1" />
+                            <select
+                                value={stackSize}
+                                onChange={e => setStackSize(Number(e.target.value))}
+                                disabled={isEnhancing}
+                                className="bg-transparent text-neutral-300 font-mono rounded px-1 focus:outline-none"
+                                title={t.stackedFrom}
+                            >
+                                {STACK_SIZES.map(n => <option key={n} value={n} className="bg-neutral-900">×{n}</option>)}
+                            </select>
+                            <select
+                                value={stackMode}
+                                onChange={e => setStackMode(e.target.value as StackMode)}
+                                disabled={isEnhancing}
+                                className="bg-transparent text-neutral-300 rounded px-1 focus:outline-none"
+                            >
+                                <option value="median" className="bg-neutral-900">{t.stackMedian}</option>
+                                <option value="mean" className="bg-neutral-900">{t.stackMean}</option>
+                            </select>
+                            <button onClick={enhanceFrame} disabled={isEnhancing} className="flex items-center gap-1.5 px-3 py-1 rounded-full text-neutral-200 hover:bg-white/10 disabled:opacity-40 transition-colors">
+                                {isEnhancing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                                <span>{t.enhance}</span>
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+
             {/* Image Container */}
             <div className="w-full h-full p-4 md:p-12 flex items-center justify-center pointer-events-none">
-                 <img
-                    src={expandedFrame.url}
-                    alt="Expanded frame"
-                    className="max-w-full max-h-full object-contain shadow-2xl pointer-events-auto"
-                    onClick={e => e.stopPropagation()}
-                    onError={(e) => {
-                        (e.target as HTMLImageElement).style.opacity = '0.5';
-                    }}
-                />
+                {editTool === 'crop' ? (
+                    <div className="pointer-events-auto pt-12 max-w-full">
+                        <CropEditor
+                            blob={expandedFrame.blob}
+                            crop={expandedFrame.crop}
+                            onApply={(crop) => {
+                                editFrames([expandedFrame.id], { crop });
+                                setEditTool(null);
+                            }}
+                            onCancel={() => setEditTool(null)}
+                            onLoadError={() => {
+                                notify('error', t.errEditFrame);
+                                setEditTool(null);
+                            }}
+                            t={t}
+                        />
+                    </div>
+                ) : editTool === 'adjust' ? (
+                    <div className="pointer-events-auto pt-12 max-w-full">
+                        <AdjustEditor
+                            blob={expandedFrame.blob}
+                            crop={expandedFrame.crop}
+                            adjustments={expandedFrame.adjustments}
+                            selectedCount={selectedCount}
+                            onApply={(adjustments) => {
+                                editFrames([expandedFrame.id], { adjustments });
+                                setEditTool(null);
+                            }}
+                            onCopyToSelected={(adjustments) => {
+                                copyAdjustments(expandedFrame.id, adjustments);
+                                setEditTool(null);
+                            }}
+                            onCancel={() => setEditTool(null)}
+                            onLoadError={() => {
+                                notify('error', t.errEditFrame);
+                                setEditTool(null);
+                            }}
+                            t={t}
+                        />
+                    </div>
+                ) : editTool === 'clip' ? (
+                    <div className="pointer-events-auto pt-12 max-w-full">
+                        <ClipDialog
+                            settings={clipSettings}
+                            canEncodeWebp={supportedFormats.includes('webp')}
+                            isIncluded={!!expandedFrame.clip}
+                            onChange={(settings) => {
+                                setClipSettings(settings);
+                                // An included clip follows the settings it is being previewed with
+                                if (expandedFrame.clip) setFrameClip(expandedFrame.id, settings);
+                            }}
+                            onRender={(settings) => renderFrameClip(expandedFrame, settings)}
+                            onDownload={(clip, settings) => downloadFrameClip(expandedFrame, clip, settings)}
+                            onToggleInclude={(settings) => setFrameClip(expandedFrame.id, settings)}
+                            onClose={() => setEditTool(null)}
+                            t={t}
+                        />
+                    </div>
+                ) : (
+                    /* Wrapper shrinks to the rendered image so overlays can use percentage coordinates */
+                    <div className="relative inline-flex pointer-events-auto" onClick={e => e.stopPropagation()}>
+                        <img
+                            src={stepPreview?.url ?? expandedFrame.previewUrl ?? expandedUrl ?? expandedFrame.url}
+                            alt={formatMessage(t.frameAt, { time: expandedFrame.timestamp }, currentLang)}
+                            className="max-w-full max-h-[calc(100vh-2rem)] md:max-h-[calc(100vh-6rem)] object-contain shadow-2xl"
+                            onError={(e) => {
+                                (e.target as HTMLImageElement).style.opacity = '0.5';
+                            }}
+                        />
+                        {/* Boxes are in uncropped coordinates, so they are only drawn on unedited frames */}
+                        {showFaceBoxes && !stepPreview && !expandedFrame.crop && expandedFrame.faces?.boxes.map((box, i) => (
+                            <div
+                                key={i}
+                                className="absolute border-2 border-blue-400/90 rounded-sm pointer-events-none"
+                                style={{
+                                    left: `${box.x * 100}%`,
+                                    top: `${box.y * 100}%`,
+                                    width: `${box.width * 100}%`,
+                                    height: `${box.height * 100}%`
+                                }}
+                            >
+                                <span className="absolute -top-5 left-0 text-[10px] font-mono text-blue-200 bg-black/60 px-1 rounded">
+                                    {Math.round(box.eyesOpen * 100)}%
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
             </div>
         </div>
       )}
 
+      {compareFrames.length >= 2 && (
+        <CompareView
+          frames={compareFrames}
+          onPick={pickWinner}
+          onClose={() => setCompareIds(null)}
+          t={t}
+        />
+      )}
+
+      {isSheetOpen && (
+        <ContactSheetDialog
+          settings={sheetSettings}
+          selectedCount={visibleFrames.filter(f => f.selected).length}
+          totalCount={visibleFrames.length}
+          onChange={setSheetSettings}
+          onConfirm={runContactSheet}
+          onClose={() => setIsSheetOpen(false)}
+          t={t}
+        />
+      )}
+
+      {isExportOpen && (
+        <ExportDialog
+          settings={exportSettings}
+          supportedFormats={supportedFormats}
+          selectedCount={selectedCount}
+          ratedCount={ratedFrames.length}
+          clipCount={exportFrames.filter(f => f.clip).length}
+          onChange={setExportSettings}
+          onConfirm={runExport}
+          onClose={() => setIsExportOpen(false)}
+          t={t}
+        />
+      )}
+
+      {reportDialog}
+      <ToastStack toasts={toasts} onDismiss={dismissToast} t={t} />
+
       {/* Contribution Section */}
       <div className="pt-6 flex flex-col items-center space-y-4">
         <p className="text-neutral-500 text-sm font-light max-w-md mx-auto text-center">
@@ -902,7 +7588,14 @@ const App = () => {
 const container = document.getElementById('root');
 if (container) {
   const root = createRoot(container);
-  root.render(<App />);
+  const lang = getInitialLanguage();
+  // English backs every missing key, so it must be present before the first render
+  Promise.all([loadMessages('en'), loadMessages(lang).then(() => lang, () => 'en' as const)])
+    .then(([, initialLang]) => root.render(<App initialLang={initialLang} />))
+    .catch(err => {
+      console.error(err);
+      container.innerHTML = '<div class="text-red-500 p-4">Error: could not load the interface text (locales/en.json).</div>';
+    });
 } else {
   document.body.innerHTML = '<div class="text-red-500 p-4">Error: #root element not found in HTML.</div>';
 }
@@ -0,0 +1,84 @@
+// Verifies that every locale in locales/ defines every message key the UI reads, and that each
+// translation uses the same ICU argument names as English. Run with `node scripts/check-locales.mjs`.
+import { readFileSync, readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const source = readFileSync(join(root, 'index.tsx'), 'utf8');
+
+// Keys are read as `t.key`, or indirectly through `nameKey: 'key'` lookup tables
+const usedKeys = new Set([
+    ...[...source.matchAll(/\bt\.([A-Za-z_]\w*)/g)].map(m => m[1]),
+    ...[...source.matchAll(/\bnameKey: '(\w+)'/g)].map(m => m[1])
+]);
+
+const languages = /^type Language = (.+);$/m.exec(source)[1].match(/'\w+'/g).map(s => s.slice(1, -1));
+
+// Collects the name of every argument, including those nested inside plural/select branches.
+// Types may differ: a locale can pluralize a count that English only formats as a number.
+const argumentsOf = (message) => {
+    const args = new Set();
+    // A "{" inside an argument opens a plural/select branch; anywhere else it opens an argument
+    const stack = [];
+    for (let i = 0; i < message.length; i++) {
+        if (message[i] === '{') {
+            if (stack.at(-1) === 'argument') {
+                stack.push('branch');
+                continue;
+            }
+            const m = /^\s*(\w+)/.exec(message.slice(i + 1));
+            if (!m) throw new Error(`argument without a name at ${i}`);
+            args.add(m[1]);
+            stack.push('argument');
+        } else if (message[i] === '}') {
+            if (!stack.pop()) throw new Error(`unbalanced "}" at ${i}`);
+        }
+    }
+    if (stack.length > 0) throw new Error('unbalanced "{"');
+    return [...args].sort();
+};
+
+const load = (lang) => JSON.parse(readFileSync(join(root, 'locales', `${lang}.json`), 'utf8'));
+const english = load('en');
+const problems = [];
+
+const files = readdirSync(join(root, 'locales')).filter(f => f.endsWith('.json')).map(f => f.slice(0, -5));
+for (const lang of files) {
+    if (!languages.includes(lang)) problems.push(`locales/${lang}.json: "${lang}" is not listed in the Language type`);
+}
+
+for (const lang of languages) {
+    let messages;
+    try {
+        messages = load(lang);
+    } catch (err) {
+        problems.push(`locales/${lang}.json: ${err.message}`);
+        continue;
+    }
+    for (const key of usedKeys) {
+        if (typeof messages[key] !== 'string') problems.push(`${lang}: missing "${key}"`);
+    }
+    for (const [key, message] of Object.entries(messages)) {
+        if (!(key in english)) {
+            problems.push(`${lang}: "${key}" is not defined in English`);
+            continue;
+        }
+        try {
+            const expected = argumentsOf(english[key]).join(', ');
+            const actual = argumentsOf(message).join(', ');
+            if (expected !== actual) problems.push(`${lang}: "${key}" uses {${actual}} but English uses {${expected}}`);
+        } catch (err) {
+            problems.push(`${lang}: "${key}": ${err.message}`);
+        }
+    }
+}
+
+const unused = Object.keys(english).filter(key => !usedKeys.has(key));
+if (unused.length > 0) console.warn(`Unused in the UI: ${unused.join(', ')}`);
+
+if (problems.length > 0) {
+    console.error(problems.join('\n'));
+    process.exit(1);
+}
+console.log(`${languages.length} locales define all ${usedKeys.size} keys.`);